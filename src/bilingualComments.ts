@@ -0,0 +1,208 @@
+import * as vscode from 'vscode';
+import { extractComments } from './commentExtractor';
+import { findGeneratedLines, getBilingualLabel } from './commentParagraphs';
+import { CommentLocation, findCommentLocations } from './translatableText';
+import { translateLocations, wrap, columnOf, displayWidth } from './commentRewriter';
+import { getTargetLanguages } from './config';
+
+/**
+ * Bilingual comments
+ * Adds the translation of each comment paragraph right under the original, as comment lines
+ * starting with lmTranslator.bilingualPrefix (e.g. "// [Vietnamese] ..."). The label is how
+ * added lines are recognised: running the command again updates them, and
+ * "LM: Remove Translated Comments" deletes them.
+ */
+
+// Translated lines are wrapped at the width of the original, but not narrower than this
+const MIN_WIDTH = 80;
+
+/**
+ * Add (or update) translated comment lines under the comments of the selection or file
+ */
+export async function insertTranslatedComments(): Promise<void> {
+  const editor = vscode.window.activeTextEditor;
+  if (!editor) {
+    vscode.window.showWarningMessage('No active text editor');
+    return;
+  }
+
+  const document = editor.document;
+  const text = document.getText();
+  const scope = getScope(editor);
+
+  const locations = findCommentLocations(text, document.languageId, getTargetLanguages(document))
+    .filter(({ paragraph }) => paragraph.start < scope.end && paragraph.end > scope.start)
+    .filter(location => canInsertBelow(text, location));
+
+  if (locations.length === 0) {
+    vscode.window.showInformationMessage(`LM Translator: No comments to translate in the ${editor.selection.isEmpty ? 'file' : 'selection'}`);
+    return;
+  }
+
+  const version = document.version;
+  const results = await translateLocations(document, locations, 'LM Translator: Adding translated comments');
+  if (!results) {
+    return;
+  }
+  if (document.version !== version) {
+    vscode.window.showWarningMessage('LM Translator: The document changed while translating, no comments were added');
+    return;
+  }
+
+  const generated = findGeneratedLines(text, extractComments(text, document.languageId), getTargetLanguages(document));
+  const eol = document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n';
+  const edit = new vscode.WorkspaceEdit();
+  let added = 0;
+  let updated = 0;
+
+  locations.forEach((location, i) => {
+    const lines = buildTranslatedLines(text, location, results[i].translatedText, results[i].targetLanguage);
+    if (!lines) {
+      return;
+    }
+
+    // Lines added by an earlier run sit directly under the paragraph and are replaced
+    const lastLine = document.positionAt(location.paragraph.end).line;
+    let existingEnd = lastLine;
+    while (existingEnd + 1 < document.lineCount && generated.has(document.offsetAt(new vscode.Position(existingEnd + 1, 0)))) {
+      existingEnd++;
+    }
+
+    const range = new vscode.Range(document.lineAt(lastLine).range.end, document.lineAt(existingEnd).range.end);
+    const replacement = lines.map(line => eol + line).join('');
+    if (document.getText(range) === replacement) {
+      return; // Already up to date
+    }
+
+    edit.replace(document.uri, range, replacement);
+    if (existingEnd > lastLine) {
+      updated++;
+    } else {
+      added++;
+    }
+  });
+
+  if (added + updated > 0) {
+    await vscode.workspace.applyEdit(edit);
+  }
+  vscode.window.showInformationMessage(`LM Translator: ${added} translated comment${added === 1 ? '' : 's'} added, ${updated} updated`);
+}
+
+/**
+ * Remove the lines added by insertTranslatedComments from the selection or file
+ */
+export async function removeTranslatedComments(): Promise<void> {
+  const editor = vscode.window.activeTextEditor;
+  if (!editor) {
+    vscode.window.showWarningMessage('No active text editor');
+    return;
+  }
+
+  const document = editor.document;
+  const text = document.getText();
+  const scope = getScope(editor);
+
+  const lines = Array.from(findGeneratedLines(text, extractComments(text, document.languageId), getTargetLanguages(document)))
+    .filter(offset => offset >= scope.start && offset < scope.end)
+    .map(offset => document.positionAt(offset).line)
+    .filter(line => line > 0); // Added lines always follow the original
+
+  if (lines.length === 0) {
+    vscode.window.showInformationMessage('LM Translator: No translated comments to remove');
+    return;
+  }
+
+  // Each line goes together with the line break before it
+  const edit = new vscode.WorkspaceEdit();
+  for (const line of lines) {
+    edit.delete(document.uri, new vscode.Range(document.lineAt(line - 1).range.end, document.lineAt(line).range.end));
+  }
+
+  await vscode.workspace.applyEdit(edit);
+  vscode.window.showInformationMessage(`LM Translator: Removed ${lines.length} translated comment line${lines.length === 1 ? '' : 's'}`);
+}
+
+/**
+ * Offsets of the selection, or of the whole document when nothing is selected
+ */
+function getScope(editor: vscode.TextEditor): { start: number; end: number } {
+  const document = editor.document;
+  return editor.selection.isEmpty
+    ? { start: 0, end: document.getText().length }
+    : { start: document.offsetAt(editor.selection.start), end: document.offsetAt(editor.selection.end) };
+}
+
+/**
+ * New lines can go under a paragraph unless its comment closes on the same line (one-line block comments and docstrings)
+ */
+function canInsertBelow(text: string, { paragraph, token }: CommentLocation): boolean {
+  if (token.kind === 'line') {
+    return true;
+  }
+  const lineEnd = text.indexOf('\n', paragraph.end);
+  return token.end > (lineEnd === -1 ? text.length : lineEnd);
+}
+
+/**
+ * The comment lines holding a translation, e.g. ["    // [Vietnamese] Lấy người dùng"]
+ * Each line repeats the comment prefix of the paragraph's last line and the label.
+ * @returns undefined when the translation cannot be added safely
+ */
+function buildTranslatedLines(text: string, location: CommentLocation, translation: string, targetLanguage: string): string[] | undefined {
+  const { paragraph, token } = location;
+  const translated = translation.replace(/\s+/g, ' ').trim();
+
+  // A translation containing the closing delimiter (*/, -->, """) would end the comment early
+  const close = text.slice(token.contentEnd, token.end);
+  if (!translated || translated === paragraph.text || (close && translated.includes(close))) {
+    return undefined;
+  }
+
+  const last = paragraph.lines[paragraph.lines.length - 1];
+  const prefix = `${getLinePrefix(text, location, last.start)}${getBilingualLabel(targetLanguage)} `;
+  const width = Math.max(...paragraph.lines.map(line => columnOf(text, line.end)), MIN_WIDTH, displayWidth(prefix) + 20);
+  const available = width - displayWidth(prefix);
+
+  return wrap(translated, available, available).map(line => prefix + line);
+}
+
+/**
+ * Indentation and comment marker to start a new line with, aligned with the text at offset
+ * Code before a trailing comment and text before the description (@param name) become spaces.
+ */
+function getLinePrefix(text: string, { token }: CommentLocation, offset: number): string {
+  const lineStart = text.lastIndexOf('\n', offset - 1) + 1;
+
+  // Line comments: start at this line's marker (the token is the paragraph's first line)
+  let keepFrom = lineStart;
+  if (token.kind === 'line') {
+    keepFrom = Math.max(lineStart, text.lastIndexOf(token.marker, offset - token.marker.length));
+    while (keepFrom > lineStart && text[keepFrom - 1] === token.marker[0]) {
+      keepFrom--;
+    }
+  }
+  const before = text.slice(keepFrom, offset);
+
+  let kept: string;
+  if (token.kind === 'line') {
+    // The marker with its repeats (///, ##) or //!, then the space after it
+    let end = token.marker.length;
+    while (before[end] === token.marker[0] || (end === token.marker.length && before[end] === '!')) {
+      end++;
+    }
+    kept = before.slice(0, end) + (/^[ \t]*/.exec(before.slice(end))?.[0] ?? '');
+  } else if (token.marker === '/*' && token.start < lineStart) {
+    kept = /^[ \t]*(\*+[ \t]*)?/.exec(before)?.[0] ?? '';
+  } else {
+    kept = /^[ \t]*/.exec(before)?.[0] ?? '';
+  }
+
+  return toSpaces(text.slice(lineStart, keepFrom)) + kept + toSpaces(before.slice(kept.length));
+}
+
+/**
+ * Blank out text while keeping its width (tabs stay tabs)
+ */
+function toSpaces(value: string): string {
+  return Array.from(value).map(c => c === '\t' ? c : ' '.repeat(displayWidth(c))).join('');
+}
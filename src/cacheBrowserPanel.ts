@@ -0,0 +1,343 @@
+import * as vscode from 'vscode';
+import { TranslationCache } from './translationCache';
+
+/**
+ * Cache Browser - Webview to search, correct, pin and delete cached translations
+ */
+export class CacheBrowserPanel {
+  public static currentPanel: CacheBrowserPanel | undefined;
+  public static readonly viewType = 'lmTranslator.cacheBrowser';
+
+  private readonly _panel: vscode.WebviewPanel;
+  private _disposables: vscode.Disposable[] = [];
+  private _refreshTimeout: NodeJS.Timeout | undefined;
+
+  /**
+   * Create or show the panel
+   */
+  public static createOrShow(extensionUri: vscode.Uri): CacheBrowserPanel {
+    const column = vscode.ViewColumn.Active;
+
+    if (CacheBrowserPanel.currentPanel) {
+      CacheBrowserPanel.currentPanel._panel.reveal(column);
+      return CacheBrowserPanel.currentPanel;
+    }
+
+    const panel = vscode.window.createWebviewPanel(
+      CacheBrowserPanel.viewType,
+      'Translation Cache',
+      column,
+      {
+        enableScripts: true,
+        retainContextWhenHidden: true,
+        localResourceRoots: [extensionUri]
+      }
+    );
+
+    CacheBrowserPanel.currentPanel = new CacheBrowserPanel(panel);
+    return CacheBrowserPanel.currentPanel;
+  }
+
+  private constructor(panel: vscode.WebviewPanel) {
+    this._panel = panel;
+    this._panel.webview.html = this._getHtmlContent();
+
+    this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+
+    // Keep the list in sync while decorations and other callers fill the cache
+    TranslationCache.getInstance().onDidChange(() => this._scheduleRefresh(), null, this._disposables);
+
+    // Handle messages from webview
+    this._panel.webview.onDidReceiveMessage(
+      (message) => {
+        const cache = TranslationCache.getInstance();
+        switch (message.command) {
+          case 'getEntries':
+            this._sendEntries();
+            break;
+          case 'updateEntry':
+            cache.updateTranslation(message.key, message.translated);
+            break;
+          case 'deleteEntry':
+            cache.remove(message.key);
+            break;
+          case 'pinEntry':
+            cache.setPinned(message.key, message.pinned);
+            break;
+          case 'promoteEntry':
+            vscode.commands.executeCommand('lmTranslator.promoteToMemory', message.key);
+            break;
+        }
+      },
+      null,
+      this._disposables
+    );
+  }
+
+  /**
+   * Refresh at most every 500ms - a decoration pass can add dozens of entries per second
+   */
+  private _scheduleRefresh(): void {
+    if (this._refreshTimeout) {
+      return;
+    }
+    this._refreshTimeout = setTimeout(() => {
+      this._refreshTimeout = undefined;
+      this._sendEntries();
+    }, 500);
+  }
+
+  /**
+   * Send all cache entries to the webview (filtering happens client side)
+   */
+  private _sendEntries(): void {
+    const entries = TranslationCache.getInstance().list().map(entry => ({
+      key: entry.key,
+      original: entry.result.originalText,
+      translated: entry.result.translatedText,
+      targetLanguage: entry.result.targetLanguage,
+      provider: entry.result.provider || 'Unknown',
+      model: entry.result.model || '',
+      timestamp: entry.result.timestamp,
+      pinned: entry.pinned
+    }));
+
+    this._panel.webview.postMessage({
+      command: 'setEntries',
+      entries
+    });
+  }
+
+  /**
+   * Get HTML content for webview
+   */
+  private _getHtmlContent(): string {
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Translation Cache</title>
+  <style>
+    :root {
+      --vscode-font: var(--vscode-font-family);
+      --bg-primary: var(--vscode-editor-background);
+      --bg-secondary: var(--vscode-input-background);
+      --text-primary: var(--vscode-editor-foreground);
+      --text-secondary: var(--vscode-descriptionForeground);
+      --border: var(--vscode-input-border);
+      --accent: var(--vscode-button-background);
+      --accent-hover: var(--vscode-button-hoverBackground);
+      --error: var(--vscode-errorForeground);
+    }
+    * { box-sizing: border-box; margin: 0; padding: 0; }
+    body {
+      font-family: var(--vscode-font);
+      background: var(--bg-primary);
+      color: var(--text-primary);
+      padding: 16px;
+    }
+    h1 { font-size: 1.3em; margin-bottom: 12px; }
+    .filters { display: flex; gap: 8px; margin-bottom: 12px; flex-wrap: wrap; }
+    input, select, textarea {
+      padding: 6px;
+      border: 1px solid var(--border);
+      border-radius: 4px;
+      background: var(--bg-secondary);
+      color: var(--text-primary);
+      font-family: var(--vscode-font);
+      font-size: 13px;
+    }
+    #search { flex: 1; min-width: 200px; }
+    table { width: 100%; border-collapse: collapse; font-size: 13px; }
+    th, td { text-align: left; padding: 6px; border-bottom: 1px solid var(--border); vertical-align: top; }
+    th { color: var(--text-secondary); font-weight: 600; }
+    td.original { width: 35%; white-space: pre-wrap; word-break: break-word; }
+    td.translated { width: 35%; }
+    td.translated textarea { width: 100%; min-height: 3em; resize: vertical; }
+    td.meta { color: var(--text-secondary); font-size: 0.9em; }
+    td.actions { white-space: nowrap; }
+    button {
+      padding: 4px 8px;
+      border: 1px solid var(--border);
+      border-radius: 4px;
+      background: transparent;
+      color: var(--text-primary);
+      cursor: pointer;
+      font-size: 12px;
+    }
+    button:hover { background: var(--bg-secondary); }
+    button.pinned { background: var(--accent); color: var(--vscode-button-foreground); }
+    button.danger:hover { color: var(--error); }
+    .status { font-size: 0.85em; color: var(--text-secondary); margin-bottom: 8px; }
+  </style>
+</head>
+<body>
+  <h1>🗂️ Translation Cache</h1>
+
+  <div class="filters">
+    <input id="search" type="text" placeholder="Search original or translated text...">
+    <select id="language-filter"><option value="">All languages</option></select>
+    <select id="provider-filter"><option value="">All providers</option></select>
+    <label><input id="pinned-filter" type="checkbox"> Pinned only</label>
+  </div>
+
+  <div class="status" id="status"></div>
+
+  <table>
+    <thead>
+      <tr>
+        <th>Original</th>
+        <th>Translation</th>
+        <th>Details</th>
+        <th></th>
+      </tr>
+    </thead>
+    <tbody id="rows"></tbody>
+  </table>
+
+  <script>
+    const vscode = acquireVsCodeApi();
+    const MAX_ROWS = 500;
+
+    const searchEl = document.getElementById('search');
+    const languageFilter = document.getElementById('language-filter');
+    const providerFilter = document.getElementById('provider-filter');
+    const pinnedFilter = document.getElementById('pinned-filter');
+    const statusEl = document.getElementById('status');
+    const rowsEl = document.getElementById('rows');
+    let entries = [];
+
+    vscode.postMessage({ command: 'getEntries' });
+
+    [searchEl, languageFilter, providerFilter, pinnedFilter].forEach(el => {
+      el.addEventListener('input', render);
+      el.addEventListener('change', render);
+    });
+
+    function fillSelect(select, values) {
+      const current = select.value;
+      while (select.options.length > 1) {
+        select.remove(1);
+      }
+      values.forEach(value => {
+        const opt = document.createElement('option');
+        opt.value = value;
+        opt.textContent = value;
+        select.appendChild(opt);
+      });
+      select.value = values.includes(current) ? current : '';
+    }
+
+    function createButton(label, className, onClick) {
+      const button = document.createElement('button');
+      button.textContent = label;
+      if (className) {
+        button.className = className;
+      }
+      button.addEventListener('click', onClick);
+      return button;
+    }
+
+    function render() {
+      const query = searchEl.value.trim().toLowerCase();
+      const language = languageFilter.value;
+      const provider = providerFilter.value;
+      const pinnedOnly = pinnedFilter.checked;
+
+      const matches = entries.filter(e =>
+        (!query || e.original.toLowerCase().includes(query) || e.translated.toLowerCase().includes(query)) &&
+        (!language || e.targetLanguage === language) &&
+        (!provider || e.provider === provider) &&
+        (!pinnedOnly || e.pinned)
+      );
+
+      statusEl.textContent = matches.length > MAX_ROWS
+        ? 'Showing ' + MAX_ROWS + ' of ' + matches.length + ' matching entries (' + entries.length + ' total) - refine the search'
+        : matches.length + ' matching entries (' + entries.length + ' total)';
+
+      rowsEl.textContent = '';
+      matches.slice(0, MAX_ROWS).forEach(entry => {
+        const row = document.createElement('tr');
+
+        const originalCell = document.createElement('td');
+        originalCell.className = 'original';
+        originalCell.textContent = entry.original;
+
+        const translatedCell = document.createElement('td');
+        translatedCell.className = 'translated';
+        const editor = document.createElement('textarea');
+        editor.value = entry.translated;
+        editor.title = 'Edit and leave the field to save';
+        editor.addEventListener('change', () => {
+          const translated = editor.value.trim();
+          if (translated && translated !== entry.translated) {
+            entry.translated = translated;
+            vscode.postMessage({ command: 'updateEntry', key: entry.key, translated });
+          }
+        });
+        translatedCell.appendChild(editor);
+
+        const metaCell = document.createElement('td');
+        metaCell.className = 'meta';
+        metaCell.textContent = entry.targetLanguage + ' · ' + entry.provider +
+          (entry.model ? ' (' + entry.model + ')' : '') + ' · ' + new Date(entry.timestamp).toLocaleString();
+
+        const actionsCell = document.createElement('td');
+        actionsCell.className = 'actions';
+        actionsCell.appendChild(createButton(entry.pinned ? '📌 Pinned' : 'Pin', entry.pinned ? 'pinned' : '', () => {
+          vscode.postMessage({ command: 'pinEntry', key: entry.key, pinned: !entry.pinned });
+        }));
+        actionsCell.appendChild(createButton('Approve', '', () => {
+          vscode.postMessage({ command: 'promoteEntry', key: entry.key });
+        }));
+        actionsCell.appendChild(createButton('Delete', 'danger', () => {
+          vscode.postMessage({ command: 'deleteEntry', key: entry.key });
+        }));
+
+        row.append(originalCell, translatedCell, metaCell, actionsCell);
+        rowsEl.appendChild(row);
+      });
+    }
+
+    window.addEventListener('message', (event) => {
+      const message = event.data;
+      switch (message.command) {
+        case 'setEntries':
+          // Do not wipe a translation the user is currently editing
+          if (document.activeElement && document.activeElement.tagName === 'TEXTAREA') {
+            setTimeout(() => vscode.postMessage({ command: 'getEntries' }), 1000);
+            return;
+          }
+          entries = message.entries;
+          fillSelect(languageFilter, [...new Set(entries.map(e => e.targetLanguage))].sort());
+          fillSelect(providerFilter, [...new Set(entries.map(e => e.provider))].sort());
+          render();
+          break;
+      }
+    });
+  </script>
+</body>
+</html>`;
+  }
+
+  /**
+   * Dispose the panel
+   */
+  public dispose(): void {
+    CacheBrowserPanel.currentPanel = undefined;
+
+    if (this._refreshTimeout) {
+      clearTimeout(this._refreshTimeout);
+    }
+
+    this._panel.dispose();
+
+    while (this._disposables.length) {
+      const disposable = this._disposables.pop();
+      if (disposable) {
+        disposable.dispose();
+      }
+    }
+  }
+}
@@ -0,0 +1,205 @@
+import * as vscode from 'vscode';
+import { TranslationCache, ImportStrategy, getWorkspaceId } from './translationCache';
+import { TranslationResult } from './types';
+import { isRecord } from './folderConfig';
+
+/**
+ * One entry of an exported cache file
+ */
+interface ExportedEntry {
+  key: string;
+  result: TranslationResult;
+  pinned?: boolean;
+}
+
+/**
+ * JSON export file layout (JSONL exports contain one ExportedEntry per line instead)
+ */
+interface ExportFile {
+  version: number;
+  exportedAt: string;
+  entries: ExportedEntry[];
+}
+
+const EXPORT_VERSION = 1;
+
+const PROVIDERS = ['LM Studio', 'Google Translate', 'OpenAI Compatible'];
+
+/**
+ * Export the translation cache (all entries or those used in this workspace) to a JSON/JSONL file
+ */
+export async function exportCache(): Promise<void> {
+  const cache = TranslationCache.getInstance();
+  const workspaceId = getWorkspaceId();
+
+  let scope: 'all' | 'workspace' = 'all';
+  if (workspaceId) {
+    const picked = await vscode.window.showQuickPick(
+      [
+        { label: 'All Entries', scope: 'all' as const },
+        { label: 'Entries Used in This Workspace', scope: 'workspace' as const }
+      ],
+      { placeHolder: 'Which cache entries should be exported?' }
+    );
+    if (!picked) {
+      return;
+    }
+    scope = picked.scope;
+  }
+
+  const entries: ExportedEntry[] = cache.list()
+    .filter(entry => scope === 'all' || entry.workspaces.includes(workspaceId!))
+    .map(entry => ({ key: entry.key, result: entry.result, pinned: entry.pinned || undefined }));
+
+  if (entries.length === 0) {
+    vscode.window.showInformationMessage('LM Translator: No cache entries to export');
+    return;
+  }
+
+  const defaultFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+  const uri = await vscode.window.showSaveDialog({
+    defaultUri: defaultFolder ? vscode.Uri.joinPath(defaultFolder, 'translation-cache.json') : undefined,
+    filters: {
+      'JSON': ['json'],
+      'JSON Lines': ['jsonl']
+    },
+    saveLabel: 'Export Cache'
+  });
+  if (!uri) {
+    return;
+  }
+
+  const content = uri.path.endsWith('.jsonl')
+    ? entries.map(entry => JSON.stringify(entry)).join('\n') + '\n'
+    : JSON.stringify({ version: EXPORT_VERSION, exportedAt: new Date().toISOString(), entries } as ExportFile, null, 2);
+
+  await vscode.workspace.fs.writeFile(uri, Buffer.from(content, 'utf8'));
+  vscode.window.showInformationMessage(`LM Translator: Exported ${entries.length} cache entries to ${vscode.workspace.asRelativePath(uri)}`);
+}
+
+/**
+ * Import a JSON/JSONL cache file, merging it with the current cache
+ */
+export async function importCache(): Promise<void> {
+  const uris = await vscode.window.showOpenDialog({
+    canSelectMany: false,
+    filters: {
+      'Cache Files': ['json', 'jsonl']
+    },
+    openLabel: 'Import Cache'
+  });
+  if (!uris || uris.length === 0) {
+    return;
+  }
+
+  const strategyPick = await vscode.window.showQuickPick(
+    [
+      { label: 'Keep Newest', description: 'Use whichever translation is more recent', strategy: 'newest' as ImportStrategy },
+      { label: 'Keep Existing', description: 'Only add entries that are not cached yet', strategy: 'existing' as ImportStrategy },
+      { label: 'Overwrite', description: 'Imported translations replace cached ones', strategy: 'overwrite' as ImportStrategy }
+    ],
+    { placeHolder: 'How should conflicting entries be merged?' }
+  );
+  if (!strategyPick) {
+    return;
+  }
+
+  let rawEntries: unknown[];
+  try {
+    const bytes = await vscode.workspace.fs.readFile(uris[0]);
+    rawEntries = parseCacheFile(Buffer.from(bytes).toString('utf8'));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    vscode.window.showErrorMessage(`LM Translator: Cannot read cache file - ${errorMessage}`);
+    return;
+  }
+
+  const cache = TranslationCache.getInstance();
+  let added = 0;
+  let skipped = 0;
+  let conflicting = 0;
+  let replaced = 0;
+
+  for (const raw of rawEntries) {
+    if (!isExportedEntry(raw)) {
+      skipped++;
+      continue;
+    }
+
+    const outcome = cache.importEntry(raw.key, raw.result, !!raw.pinned, strategyPick.strategy);
+    if (outcome === 'added') {
+      added++;
+    } else if (outcome === 'unchanged') {
+      skipped++;
+    } else {
+      conflicting++;
+      if (outcome === 'replaced') {
+        replaced++;
+      }
+    }
+  }
+
+  cache.completeImport();
+
+  vscode.window.showInformationMessage(
+    `LM Translator: Import finished - ${added} added, ${conflicting} conflicting (${replaced} replaced), ${skipped} skipped`
+  );
+}
+
+/**
+ * Accepts the JSON export layout, a bare JSON array, or JSON Lines
+ */
+function parseCacheFile(content: string): unknown[] {
+  const trimmed = content.trim();
+  if (!trimmed) {
+    return [];
+  }
+
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    try {
+      const parsed = JSON.parse(trimmed);
+      if (Array.isArray(parsed)) {
+        return parsed;
+      }
+      if (parsed && Array.isArray(parsed.entries)) {
+        return parsed.entries;
+      }
+      // A single-line JSONL file parses as one object
+      return [parsed];
+    } catch (e) {
+      // Not a single JSON document - fall through to JSON Lines
+    }
+  }
+
+  return trimmed.split(/\r?\n/).filter(line => line.trim()).map(line => {
+    try {
+      return JSON.parse(line);
+    } catch (e) {
+      return undefined; // Counted as skipped
+    }
+  });
+}
+
+/**
+ * Validate the shape of an imported entry, and that its key was built for its result
+ */
+function isExportedEntry(value: unknown): value is ExportedEntry {
+  if (!isRecord(value) || typeof value.key !== 'string' || !value.key) {
+    return false;
+  }
+  if (value.pinned !== undefined && typeof value.pinned !== 'boolean') {
+    return false;
+  }
+  return isTranslationResult(value.result) && TranslationCache.keyMatchesResult(value.key, value.result);
+}
+
+function isTranslationResult(value: unknown): value is TranslationResult {
+  return isRecord(value) &&
+    typeof value.originalText === 'string' &&
+    typeof value.translatedText === 'string' && value.translatedText.length > 0 &&
+    typeof value.targetLanguage === 'string' &&
+    typeof value.timestamp === 'number' && Number.isFinite(value.timestamp) &&
+    (value.detectedLanguage === undefined || typeof value.detectedLanguage === 'string') &&
+    (value.provider === undefined || PROVIDERS.some(provider => provider === value.provider)) &&
+    (value.model === undefined || typeof value.model === 'string');
+}
@@ -0,0 +1,610 @@
+import * as https from 'https';
+import * as http from 'http';
+import { URL } from 'url';
+import * as vscode from 'vscode';
+import {
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  ChatCompletionChunk,
+  TranslationResult,
+  TranslationProvider,
+  ModelsResponse,
+  ChatMessage,
+  TranslationRoute
+} from './types';
+import { getConfig, buildPrompt, getApiEndpoint, getSourceLanguage } from './config';
+import { ITranslationService, ServiceUnavailableError } from './translationService';
+import { TranslationCache, CacheKeyParts } from './translationCache';
+import { Glossary } from './glossary';
+import { detectLanguage } from './languageDetection';
+import { DocumentInfo } from './folderConfig';
+
+/**
+ * Base class for services speaking the OpenAI chat completions API
+ * (LM Studio, Ollama, llama.cpp server, vLLM, ...).
+ * Subclasses supply the endpoint, model and headers.
+ */
+export abstract class ChatCompletionService implements ITranslationService {
+  protected context: vscode.ExtensionContext | undefined;
+
+  /**
+   * Provider name, used as part of the cache key
+   */
+  protected abstract readonly provider: TranslationProvider;
+
+  /**
+   * Human readable service name used in error messages
+   */
+  protected abstract readonly displayName: string;
+
+  /**
+   * Base URL of the API, e.g. http://localhost:1234/v1
+   */
+  protected abstract getBaseUrl(): string;
+
+  /**
+   * Model name sent with chat completion requests
+   */
+  protected abstract getModel(): string;
+
+  /**
+   * Extra HTTP headers (authorization, gateway headers, ...)
+   * Async so services can wait for credentials still loading from SecretStorage.
+   */
+  protected async getHeaders(): Promise<Record<string, string>> {
+    return {};
+  }
+
+  /**
+   * Make HTTP request to the API
+   * @param endpoint API endpoint
+   * @param data Optional request body
+   * @param timeoutMs Timeout in milliseconds (default 30000 for translation, use lower for status checks)
+   */
+  protected async makeRequest<T>(endpoint: string, data?: object, timeoutMs: number = 30000): Promise<T> {
+    const url = new URL(getApiEndpoint(endpoint, this.getBaseUrl()));
+    const isHttps = url.protocol === 'https:';
+    const httpModule = isHttps ? https : http;
+
+    const options: http.RequestOptions = {
+      hostname: url.hostname,
+      port: url.port || (isHttps ? 443 : 80),
+      path: url.pathname + url.search,
+      method: data ? 'POST' : 'GET',
+      headers: {
+        ...await this.getHeaders(),
+        'Content-Type': 'application/json',
+        'Accept': 'application/json'
+      },
+      timeout: timeoutMs
+    };
+
+    return new Promise((resolve, reject) => {
+      const req = httpModule.request(options, (res) => {
+        let body = '';
+
+        res.on('data', (chunk) => {
+          body += chunk;
+        });
+
+        res.on('end', () => {
+          if (res.statusCode && res.statusCode >= 200 && res.statusCode < 300) {
+            try {
+              resolve(JSON.parse(body) as T);
+            } catch (e) {
+              reject(new Error(`Failed to parse response: ${body}`));
+            }
+          } else {
+            reject(this.createStatusError(res.statusCode, body));
+          }
+        });
+      });
+
+      req.on('error', (e) => {
+        reject(new ServiceUnavailableError(`Connection error: ${e.message}. Make sure ${this.displayName} is running.`));
+      });
+
+      req.on('timeout', () => {
+        req.destroy();
+        reject(new ServiceUnavailableError(`Request timeout. Please check if ${this.displayName} is responding.`));
+      });
+
+      if (data) {
+        req.write(JSON.stringify(data));
+      }
+      req.end();
+    });
+  }
+
+  /**
+   * Make a streaming HTTP request to the API
+   * Parses server-sent events and reports each content delta as it arrives.
+   * @param endpoint API endpoint
+   * @param data Request body (must have stream: true)
+   * @param onDelta Called with each new piece of generated text
+   * @param timeoutMs Idle timeout in milliseconds
+   * @returns The full generated text
+   */
+  protected async makeStreamRequest(
+    endpoint: string,
+    data: object,
+    onDelta: (delta: string) => void,
+    timeoutMs: number = 30000
+  ): Promise<string> {
+    const url = new URL(getApiEndpoint(endpoint, this.getBaseUrl()));
+    const isHttps = url.protocol === 'https:';
+    const httpModule = isHttps ? https : http;
+
+    const options: http.RequestOptions = {
+      hostname: url.hostname,
+      port: url.port || (isHttps ? 443 : 80),
+      path: url.pathname + url.search,
+      method: 'POST',
+      headers: {
+        ...await this.getHeaders(),
+        'Content-Type': 'application/json',
+        'Accept': 'text/event-stream'
+      },
+      timeout: timeoutMs
+    };
+
+    return new Promise((resolve, reject) => {
+      const req = httpModule.request(options, (res) => {
+        if (!res.statusCode || res.statusCode < 200 || res.statusCode >= 300) {
+          let body = '';
+          res.on('data', (chunk) => {
+            body += chunk;
+          });
+          res.on('end', () => {
+            reject(this.createStatusError(res.statusCode, body));
+          });
+          return;
+        }
+
+        let buffer = '';
+        let fullText = '';
+        let done = false;
+
+        const handleLine = (line: string) => {
+          const trimmed = line.trim();
+          // SSE comments and other fields (event:, id:) are ignored
+          if (!trimmed.startsWith('data:')) { return; }
+
+          const payload = trimmed.slice(5).trim();
+          if (payload === '[DONE]') {
+            done = true;
+            return;
+          }
+
+          try {
+            const chunk = JSON.parse(payload) as ChatCompletionChunk;
+            const delta = chunk.choices?.[0]?.delta?.content;
+            if (delta) {
+              fullText += delta;
+              onDelta(delta);
+            }
+          } catch (e) {
+            console.warn('LM Translator: Skipping malformed stream chunk', payload);
+          }
+        };
+
+        res.setEncoding('utf8');
+        res.on('data', (chunk: string) => {
+          if (done) { return; }
+          buffer += chunk;
+          const lines = buffer.split('\n');
+          buffer = lines.pop() ?? '';
+          for (const line of lines) {
+            handleLine(line);
+            if (done) { break; }
+          }
+        });
+
+        res.on('end', () => {
+          if (!done && buffer) {
+            handleLine(buffer);
+          }
+          resolve(fullText);
+        });
+      });
+
+      req.on('error', (e) => {
+        reject(new ServiceUnavailableError(`Connection error: ${e.message}. Make sure ${this.displayName} is running.`));
+      });
+
+      req.on('timeout', () => {
+        req.destroy();
+        reject(new ServiceUnavailableError(`Request timeout. Please check if ${this.displayName} is responding.`));
+      });
+
+      req.write(JSON.stringify(data));
+      req.end();
+    });
+  }
+
+  /**
+   * Build the error for a non-2xx response
+   * Server-side failures (5xx) count as unavailable so the fallback chain can take over.
+   */
+  private createStatusError(statusCode: number | undefined, body: string): Error {
+    const message = `API request failed with status ${statusCode}: ${body}`;
+    return statusCode && statusCode >= 500 ? new ServiceUnavailableError(message) : new Error(message);
+  }
+
+  /**
+   * Check if client can connect using current BaseURL
+   * Uses fast timeout (3 seconds) for quick status detection
+   */
+  public async isAvailable(): Promise<boolean> {
+    try {
+      await this.makeRequest<ModelsResponse>('/models', undefined, 3000);
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Get cached result or undefined
+   */
+  public getCachedResult(
+    text: string,
+    targetLanguage?: string,
+    route?: TranslationRoute,
+    document?: DocumentInfo
+  ): TranslationResult | undefined {
+    const lang = targetLanguage || getConfig(document).targetLanguage;
+    return TranslationCache.getInstance().get(this.getCacheKeyParts(text, lang, route, document));
+  }
+
+  /**
+   * Check if a translation is cached
+   */
+  public hasCache(text: string, targetLanguage?: string, route?: TranslationRoute, document?: DocumentInfo): boolean {
+    return this.getCachedResult(text, targetLanguage, route, document) !== undefined;
+  }
+
+  /**
+   * Translate text using the chat completions API
+   * @param text Text to translate
+   * @param targetLanguage Optional target language (defaults to config)
+   * @param route Routing rule whose model and prompt template replace the configured ones
+   * @param document File the text comes from (its folder may set the prompt template and glossary)
+   */
+  public async translate(
+    text: string,
+    targetLanguage?: string,
+    route?: TranslationRoute,
+    document?: DocumentInfo
+  ): Promise<TranslationResult> {
+    const config = getConfig(document);
+    const lang = targetLanguage || config.targetLanguage;
+
+    // Check fast cache first
+    const cached = this.getCachedResult(text, lang, route, document);
+    if (cached) {
+      console.log('LM Translator: Using cached translation');
+      return cached;
+    }
+
+    const request = this.buildRequest(text, lang, false, route, document);
+    const response = await this.makeRequest<ChatCompletionResponse>('/chat/completions', request);
+
+    if (!response.choices || response.choices.length === 0) {
+      throw new Error(`No response from ${this.displayName}`);
+    }
+
+    const detectedLanguage = await this.detectSourceLanguage(text, route);
+    return this.storeResult(text, lang, response.choices[0].message.content.trim(), detectedLanguage, route, document);
+  }
+
+  /**
+   * Translate text, streaming partial output
+   * Only the final translation is cached.
+   * @param text Text to translate
+   * @param onPartial Called with the accumulated translation so far
+   * @param targetLanguage Optional target language (defaults to config)
+   * @param route Routing rule whose model and prompt template replace the configured ones
+   * @param document File the text comes from (its folder may set the prompt template and glossary)
+   */
+  public async translateStream(
+    text: string,
+    onPartial: (partial: string) => void,
+    targetLanguage?: string,
+    route?: TranslationRoute,
+    document?: DocumentInfo
+  ): Promise<TranslationResult> {
+    const config = getConfig(document);
+    const lang = targetLanguage || config.targetLanguage;
+
+    const cached = this.getCachedResult(text, lang, route, document);
+    if (cached) {
+      onPartial(cached.translatedText);
+      return cached;
+    }
+
+    const request = this.buildRequest(text, lang, true, route, document);
+    let partial = '';
+    const fullText = await this.makeStreamRequest('/chat/completions', request, (delta) => {
+      partial += delta;
+      onPartial(partial);
+    });
+
+    if (!fullText.trim()) {
+      throw new Error(`No response from ${this.displayName}`);
+    }
+
+    const detectedLanguage = await this.detectSourceLanguage(text, route);
+    return this.storeResult(text, lang, fullText.trim(), detectedLanguage, route, document);
+  }
+
+  /**
+   * Translate many texts with a single chat completion request
+   * Texts are sent as a JSON array and the model must answer with an array of the same length.
+   * If the answer cannot be split back per item, each text is translated on its own.
+   * @param texts Texts to translate
+   * @param targetLanguage Optional target language (defaults to config)
+   * @param route Routing rule whose model and prompt template replace the configured ones
+   * @param document File the texts come from (its folder may set the glossary)
+   */
+  public async translateBatch(
+    texts: string[],
+    targetLanguage?: string,
+    route?: TranslationRoute,
+    document?: DocumentInfo
+  ): Promise<TranslationResult[]> {
+    const config = getConfig(document);
+    const lang = targetLanguage || config.targetLanguage;
+
+    // Fresh results are kept here rather than read back from the cache, which may evict them when small
+    const results = new Map<string, TranslationResult>();
+    for (const text of texts) {
+      const cached = this.getCachedResult(text, lang, route, document);
+      if (cached) {
+        results.set(text, cached);
+      }
+    }
+    const missing = Array.from(new Set(texts.filter(text => !results.has(text))));
+
+    if (missing.length === 1) {
+      results.set(missing[0], await this.translate(missing[0], lang, route, document));
+    } else if (missing.length > 1) {
+      const request = this.buildBatchRequest(missing, lang, route, document);
+      const response = await this.makeRequest<ChatCompletionResponse>('/chat/completions', request, 60000);
+      const translations = this.parseBatchResponse(response.choices?.[0]?.message?.content, missing.length);
+
+      if (translations) {
+        // Batches only use the local detection: a classification request per item would cost more than the batch saves
+        missing.forEach((text, i) => results.set(
+          text,
+          this.storeResult(text, lang, translations[i], getSourceLanguage() || detectLanguage(text)?.language, route, document)
+        ));
+      } else {
+        console.warn(`LM Translator: Malformed batch response, translating ${missing.length} items one by one`);
+        for (const text of missing) {
+          results.set(text, await this.translate(text, lang, route, document));
+        }
+      }
+    }
+
+    return texts.map(text => results.get(text)!);
+  }
+
+  /**
+   * Build chat completion request for a batch translation
+   * The items travel as a JSON array. A custom prompt template is applied to each item, so batch
+   * results are made with the same prompt as single translations and can share their cache entries.
+   */
+  private buildBatchRequest(texts: string[], lang: string, route?: TranslationRoute, document?: DocumentInfo): ChatCompletionRequest {
+    const config = getConfig(document);
+
+    const glossary = Glossary.getInstance().buildInstructions(texts, lang, document);
+    const template = route?.promptTemplate || config.promptTemplate;
+    const templated = template.trim() !== '{{text}}';
+
+    const instructions = templated
+      ? `The user sends a JSON array of ${texts.length} prompts, each asking for the translation of a text${this.getSourcePhrase()} to ${lang}. Follow every prompt and answer it with the translation only.`
+      : `The user sends a JSON array of ${texts.length} strings. Translate every string${this.getSourcePhrase()} to ${lang}.`;
+
+    const messages: ChatMessage[] = [
+      {
+        role: 'system',
+        content: `You are a strict translation engine. ${instructions} Return ONLY a JSON array of exactly ${texts.length} translated strings in the same order. Do not merge, split, skip or explain items. If an item is code or strict boolean, keep it as is.` +
+          (glossary ? `\n${glossary}` : '')
+      },
+      {
+        role: 'user',
+        content: JSON.stringify(templated ? texts.map(text => buildPrompt(text, lang, route?.promptTemplate, document)) : texts)
+      }
+    ];
+
+    return {
+      model: this.getRouteModel(route),
+      messages,
+      temperature: config.temperature,
+      // Budget grows with the number of items, unlike single translations
+      max_tokens: Math.max(config.maxTokens, Math.min(texts.length * 128, 4096)),
+      stream: false
+    };
+  }
+
+  /**
+   * Split a batch answer back into per-item translations
+   * @returns The translations, or undefined when the answer is not a JSON array of the expected length
+   */
+  private parseBatchResponse(content: string | undefined, expectedLength: number): string[] | undefined {
+    if (!content) {
+      return undefined;
+    }
+
+    // Models like to wrap JSON in code fences or add a leading sentence
+    const start = content.indexOf('[');
+    const end = content.lastIndexOf(']');
+    if (start === -1 || end <= start) {
+      return undefined;
+    }
+
+    try {
+      const parsed = JSON.parse(content.slice(start, end + 1));
+      if (!Array.isArray(parsed) || parsed.length !== expectedLength) {
+        return undefined;
+      }
+      if (!parsed.every(item => typeof item === 'string' && item.trim().length > 0)) {
+        return undefined;
+      }
+      return parsed.map((item: string) => item.trim());
+    } catch (e) {
+      return undefined;
+    }
+  }
+
+  /**
+   * Build chat completion request for a translation
+   */
+  private buildRequest(
+    text: string,
+    lang: string,
+    stream: boolean,
+    route?: TranslationRoute,
+    document?: DocumentInfo
+  ): ChatCompletionRequest {
+    const config = getConfig(document);
+
+    // Build prompt
+    const prompt = buildPrompt(text, lang, route?.promptTemplate, document);
+
+    const messages: ChatMessage[] = [];
+
+    // Always use strict system message, plus the glossary terms this text contains
+    const glossary = Glossary.getInstance().buildInstructions([text], lang, document);
+    messages.push({
+      role: 'system',
+      content: `You are a strict translation engine. Translate the user text${this.getSourcePhrase()} to ${lang}. Return ONLY the direct translation. Do not explain. Do not use quotes. Do not include the original text. If the text is code or strict boolean, keep it as is.` +
+        (glossary ? `\n${glossary}` : '')
+    });
+
+    messages.push({
+      role: 'user',
+      content: prompt
+    });
+
+    return {
+      model: this.getRouteModel(route),
+      messages: messages,
+      temperature: config.temperature,
+      max_tokens: Math.min(config.maxTokens, 256),
+      stream
+    };
+  }
+
+  /**
+   * Model of a request: the routing rule's, else the configured one
+   */
+  private getRouteModel(route?: TranslationRoute): string {
+    return route?.model || this.getModel() || 'default';
+  }
+
+  /**
+   * " from Japanese" when the source language is set, empty when it is left to the model
+   */
+  private getSourcePhrase(): string {
+    const source = getSourceLanguage();
+    return source ? ` from ${source}` : '';
+  }
+
+  /**
+   * Language of the text to show next to the translation
+   * The configured source language wins; otherwise the local guess, and when that is unsure
+   * and lmTranslator.sourceLanguageDetection is "model", a short classification request.
+   */
+  private async detectSourceLanguage(text: string, route?: TranslationRoute): Promise<string | undefined> {
+    const source = getSourceLanguage();
+    if (source) {
+      return source;
+    }
+
+    const local = detectLanguage(text);
+    if ((local && local.confidence >= 0.5) || getConfig().sourceLanguageDetection !== 'model') {
+      return local?.language;
+    }
+    return (await this.classifyLanguage(text, route)) || local?.language;
+  }
+
+  /**
+   * Ask the model which language a text is in (a few output tokens)
+   * @returns undefined when the request fails or the answer does not look like a language name
+   */
+  private async classifyLanguage(text: string, route?: TranslationRoute): Promise<string | undefined> {
+    const request: ChatCompletionRequest = {
+      model: this.getRouteModel(route),
+      messages: [
+        {
+          role: 'system',
+          content: 'Identify the language of the user text. Reply with the English name of the language only, e.g. "Japanese".'
+        },
+        { role: 'user', content: text }
+      ],
+      temperature: 0,
+      max_tokens: 8,
+      stream: false
+    };
+
+    try {
+      const response = await this.makeRequest<ChatCompletionResponse>('/chat/completions', request, 10000);
+      const answer = response.choices?.[0]?.message?.content?.trim().replace(/[."'`*]/g, '');
+      return answer && /^[\p{L} ()-]{2,30}$/u.test(answer) ? answer : undefined;
+    } catch (e) {
+      console.warn('LM Translator: Source language detection failed', e);
+      return undefined; // The translation itself succeeded, the label is optional
+    }
+  }
+
+  /**
+   * Everything that shapes a translation from this service
+   * Glossary instructions count as part of the prompt, so editing a term re-translates only the texts containing it.
+   */
+  private getCacheKeyParts(text: string, lang: string, route?: TranslationRoute, document?: DocumentInfo): CacheKeyParts {
+    const glossary = Glossary.getInstance().buildInstructions([text], lang, document);
+    const promptTemplate = route?.promptTemplate || getConfig(document).promptTemplate;
+    return {
+      provider: this.provider,
+      model: this.getRouteModel(route),
+      promptTemplate: glossary ? `${promptTemplate}\n${glossary}` : promptTemplate,
+      sourceLanguage: getSourceLanguage() || 'auto',
+      targetLanguage: lang,
+      text
+    };
+  }
+
+  /**
+   * Build, cache and return the translation result
+   */
+  private storeResult(
+    text: string,
+    lang: string,
+    translatedText: string,
+    detectedLanguage?: string,
+    route?: TranslationRoute,
+    document?: DocumentInfo
+  ): TranslationResult {
+    const result: TranslationResult = {
+      originalText: text,
+      translatedText,
+      targetLanguage: lang,
+      detectedLanguage,
+      timestamp: Date.now(),
+      provider: this.provider,
+      model: this.getRouteModel(route)
+    };
+
+    TranslationCache.getInstance().set(this.getCacheKeyParts(text, lang, route, document), result);
+    return result;
+  }
+
+  /**
+   * Clear cached translations of this provider
+   */
+  public clearCache(): void {
+    TranslationCache.getInstance().clear(this.provider);
+  }
+}
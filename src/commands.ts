@@ -1,6 +1,16 @@
 import * as vscode from 'vscode';
 import { TranslationServiceManager } from './translationService';
 import { TranslationPanel } from './translationPanel';
+import { CacheBrowserPanel } from './cacheBrowserPanel';
+import { TranslationCache } from './translationCache';
+import { TranslationMemory, MEMORY_FILE } from './translationMemory';
+import { TranslationResult } from './types';
+import { exportCache, importCache } from './cacheTransfer';
+import { translateComments } from './commentRewriter';
+import { insertTranslatedComments, removeTranslatedComments } from './bilingualComments';
+import { translateWorkspace } from './workspaceTranslation';
+import { OpenAICompatibleService } from './openAICompatibleService';
+import { getProfiles, getConfig } from './config';
 
 /**
  * Register all extension commands
@@ -24,7 +34,7 @@ export function registerCommands(context: vscode.ExtensionContext): void {
       return;
     }
 
-    await translateAndShow(text, context);
+    await translateAndShow(text, context, editor.document);
   });
 
   // Command: Translate and Replace
@@ -53,7 +63,7 @@ export function registerCommands(context: vscode.ExtensionContext): void {
         progress.report({ message: 'Translating...' });
 
         try {
-          const result = await service.translate(text);
+          const result = await service.translate(text, undefined, { priority: 'interactive', token, document: editor.document });
 
           if (token.isCancellationRequested) {
             return;
@@ -66,6 +76,9 @@ export function registerCommands(context: vscode.ExtensionContext): void {
 
           vscode.window.showInformationMessage('Translation replaced successfully');
         } catch (error) {
+          if (error instanceof vscode.CancellationError) {
+            return;
+          }
           const errorMessage = error instanceof Error ? error.message : 'Translation failed';
           vscode.window.showErrorMessage(`Translation error: ${errorMessage}`);
         }
@@ -73,18 +86,75 @@ export function registerCommands(context: vscode.ExtensionContext): void {
     );
   });
 
+  // Command: Translate Comments in Selection/File (comment text only, markers and tags kept)
+  const translateCommentsCmd = vscode.commands.registerCommand('lmTranslator.translateComments', translateComments);
+
+  // Command: Add translated comments under the originals (bilingual), and remove them again
+  const insertTranslatedCommentsCmd = vscode.commands.registerCommand('lmTranslator.insertTranslatedComments', insertTranslatedComments);
+  const removeTranslatedCommentsCmd = vscode.commands.registerCommand('lmTranslator.removeTranslatedComments', removeTranslatedComments);
+
+  // Command: Pre-translate the comments of the workspace (or an explorer folder) into the cache
+  const translateWorkspaceCmd = vscode.commands.registerCommand('lmTranslator.translateWorkspace', translateWorkspace);
+
   // Command: Show Translation Panel
   const showPanelCmd = vscode.commands.registerCommand('lmTranslator.showPanel', () => {
     TranslationPanel.createOrShow(context.extensionUri);
   });
 
-  context.subscriptions.push(translateCmd, translateReplaceCmd, showPanelCmd);
+  // Command: Browse Translation Cache
+  const openCacheBrowserCmd = vscode.commands.registerCommand('lmTranslator.openCacheBrowser', () => {
+    CacheBrowserPanel.createOrShow(context.extensionUri);
+  });
+
+  // Command: Export / Import Translation Cache
+  const exportCacheCmd = vscode.commands.registerCommand('lmTranslator.exportCache', exportCache);
+  const importCacheCmd = vscode.commands.registerCommand('lmTranslator.importCache', importCache);
+
+  // Command: Set API key for the OpenAI-compatible provider
+  const setApiKeyCmd = vscode.commands.registerCommand('lmTranslator.setApiKey', async () => {
+    const apiKey = await vscode.window.showInputBox({
+      title: 'LM Translator: OpenAI-compatible API Key',
+      prompt: 'Stored in VS Code Secret Storage. Leave empty to remove the key.',
+      password: true,
+      ignoreFocusOut: true
+    });
+
+    if (apiKey === undefined) {
+      return;
+    }
+
+    await OpenAICompatibleService.getInstance().setApiKey(apiKey.trim());
+    vscode.window.showInformationMessage(apiKey.trim() ? 'LM Translator: API key saved' : 'LM Translator: API key removed');
+  });
+
+  // Command: Switch provider profile
+  const selectProfileCmd = vscode.commands.registerCommand('lmTranslator.selectProfile', selectProfile);
+
+  // Command: Approve a cached translation into the workspace translation memory
+  const promoteToMemoryCmd = vscode.commands.registerCommand('lmTranslator.promoteToMemory', promoteToMemory);
+
+  context.subscriptions.push(
+    translateCmd,
+    translateReplaceCmd,
+    translateCommentsCmd,
+    insertTranslatedCommentsCmd,
+    removeTranslatedCommentsCmd,
+    translateWorkspaceCmd,
+    showPanelCmd,
+    openCacheBrowserCmd,
+    exportCacheCmd,
+    importCacheCmd,
+    setApiKeyCmd,
+    selectProfileCmd,
+    promoteToMemoryCmd
+  );
 }
 
 /**
  * Translate text and show result in panel
+ * @param document File the text comes from, for its folder settings and routing rules
  */
-async function translateAndShow(text: string, context: vscode.ExtensionContext): Promise<void> {
+async function translateAndShow(text: string, context: vscode.ExtensionContext, document: vscode.TextDocument): Promise<void> {
   const service = TranslationServiceManager.getInstance();
 
   // Show the panel first
@@ -100,15 +170,22 @@ async function translateAndShow(text: string, context: vscode.ExtensionContext):
       progress.report({ message: 'Translating...' });
 
       try {
-        const result = await service.translate(text);
+        const [result, ...others] = await service.translateStreamAll(text, (partial) => {
+          if (!token.isCancellationRequested) {
+            panel.setPartialResult(text, partial);
+          }
+        }, { priority: 'interactive', token, document });
 
         if (token.isCancellationRequested) {
           return;
         }
 
         // Send result to panel
-        panel.setTranslation(result.originalText, result.translatedText);
+        panel.setTranslation(result, others);
       } catch (error) {
+        if (error instanceof vscode.CancellationError) {
+          return;
+        }
         const errorMessage = error instanceof Error ? error.message : 'Translation failed';
         panel.setError(errorMessage);
         vscode.window.showErrorMessage(`Translation error: ${errorMessage}`);
@@ -116,3 +193,121 @@ async function translateAndShow(text: string, context: vscode.ExtensionContext):
     }
   );
 }
+
+/**
+ * Quick pick to switch the active provider profile
+ */
+async function selectProfile(): Promise<void> {
+  const profiles = getProfiles();
+  if (profiles.length === 0) {
+    const action = await vscode.window.showInformationMessage(
+      'LM Translator: No profiles defined. Add them to "lmTranslator.profiles" in settings.',
+      'Open Settings'
+    );
+    if (action) {
+      await vscode.commands.executeCommand('workbench.action.openSettings', 'lmTranslator.profiles');
+    }
+    return;
+  }
+
+  const activeProfile = getConfig().activeProfile;
+  const items: (vscode.QuickPickItem & { profileName: string })[] = [
+    {
+      label: `${activeProfile ? '' : '$(check) '}Default`,
+      description: 'Use the regular settings',
+      profileName: ''
+    },
+    ...profiles.map(p => ({
+      label: `${p.name === activeProfile ? '$(check) ' : ''}${p.name}`,
+      description: [p.provider, p.model, p.apiUrl].filter(Boolean).join(' · '),
+      profileName: p.name
+    }))
+  ];
+
+  const selected = await vscode.window.showQuickPick(items, {
+    placeHolder: 'Select translation profile'
+  });
+  if (!selected) {
+    return;
+  }
+
+  // Store per workspace when one is open, unless the user wants it everywhere
+  let target = vscode.ConfigurationTarget.Global;
+  if (vscode.workspace.workspaceFolders?.length) {
+    const scope = await vscode.window.showQuickPick(
+      [
+        { label: 'This Workspace', target: vscode.ConfigurationTarget.Workspace },
+        { label: 'All Workspaces (User)', target: vscode.ConfigurationTarget.Global }
+      ],
+      { placeHolder: 'Where should the profile selection be stored?' }
+    );
+    if (!scope) {
+      return;
+    }
+    target = scope.target;
+  }
+
+  await vscode.workspace.getConfiguration('lmTranslator').update('activeProfile', selected.profileName, target);
+  vscode.window.showInformationMessage(`LM Translator: Profile → ${selected.profileName || 'Default'}`);
+}
+
+/**
+ * Copy a cached translation into the workspace translation memory (.lmtranslator/memory.json)
+ * @param cacheKey Cache entry to promote (from the cache browser); otherwise the selection or a quick pick is used
+ */
+async function promoteToMemory(cacheKey?: string): Promise<void> {
+  if (!vscode.workspace.workspaceFolders?.length) {
+    vscode.window.showWarningMessage('LM Translator: Open a workspace folder to use a translation memory');
+    return;
+  }
+
+  const editor = vscode.window.activeTextEditor;
+  let result: TranslationResult | undefined;
+
+  if (cacheKey) {
+    result = TranslationCache.getInstance().getByKey(cacheKey);
+  } else if (editor && !editor.selection.isEmpty) {
+    const text = editor.document.getText(editor.selection).trim();
+    const cached = TranslationServiceManager.getInstance().getCachedResult(text, undefined, editor.document);
+    if (cached && !cached.fromMemory) {
+      result = cached;
+    }
+  }
+
+  if (!result && !cacheKey) {
+    const picked = await vscode.window.showQuickPick(
+      TranslationCache.getInstance().list().map(entry => ({
+        label: entry.result.originalText.replace(/\s+/g, ' '),
+        description: `→ ${entry.result.targetLanguage}`,
+        detail: entry.result.translatedText.replace(/\s+/g, ' '),
+        result: entry.result
+      })),
+      { placeHolder: 'Select a cached translation to approve', matchOnDetail: true }
+    );
+    result = picked?.result;
+  }
+
+  if (!result) {
+    if (cacheKey) {
+      vscode.window.showWarningMessage('LM Translator: Cache entry no longer exists');
+    }
+    return;
+  }
+
+  const documentFolder = editor ? vscode.workspace.getWorkspaceFolder(editor.document.uri) : undefined;
+  const folder = documentFolder
+    ?? (vscode.workspace.workspaceFolders.length === 1
+      ? vscode.workspace.workspaceFolders[0]
+      : await vscode.window.showWorkspaceFolderPick({ placeHolder: 'Which folder\'s translation memory?' }));
+  if (!folder) {
+    return;
+  }
+
+  try {
+    await TranslationMemory.getInstance().promote(folder, result);
+    vscode.window.showInformationMessage(`LM Translator: Added to ${MEMORY_FILE} in ${folder.name}`);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    vscode.window.showErrorMessage(`LM Translator: Cannot update translation memory - ${errorMessage}`);
+  }
+}
@@ -0,0 +1,246 @@
+import { getCommentSyntax, LanguageSyntax, StringSyntax } from './commentSyntax';
+
+/**
+ * Comment extraction
+ * A small per-language scanner that tells comments apart from string literals,
+ * regex literals and URLs, used by both inline decorations and the hover provider.
+ * Delimiters come from the comment syntax registry.
+ */
+
+/**
+ * A comment or string literal found in a document (offsets into the document text)
+ */
+export interface CommentToken {
+  kind: 'line' | 'block' | 'docstring' | 'string';
+  marker: string; // Opening delimiter, e.g. '//', '/*', '"""', '"'
+  start: number; // Start of the comment including its delimiter
+  end: number; // End of the comment including its closing delimiter
+  contentStart: number; // Start of the text between the delimiters
+  contentEnd: number;
+}
+
+/**
+ * Find all comments in a document
+ */
+export function extractComments(text: string, languageId: string): CommentToken[] {
+  return tokenize(text, languageId).filter(token => token.kind !== 'string');
+}
+
+/**
+ * Find all comments and string literals in a document, in document order
+ */
+export function tokenize(text: string, languageId: string): CommentToken[] {
+  const syntax = getCommentSyntax(languageId);
+  const tokens: CommentToken[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    const block = syntax.block.find(b => text.startsWith(b.open, i) && (!b.lineStart || isStatementStart(text, i)));
+    if (block) {
+      const close = text.indexOf(block.close, i + block.open.length);
+      const contentEnd = close === -1 ? text.length : close;
+      const end = close === -1 ? text.length : close + block.close.length;
+      tokens.push({ kind: 'block', marker: block.open, start: i, end, contentStart: i + block.open.length, contentEnd });
+      i = end;
+      continue;
+    }
+
+    const line = syntax.line.find(marker => text.startsWith(marker, i) && isLineCommentStart(text, i, marker, syntax));
+    if (line) {
+      const end = findLineEnd(text, i);
+      tokens.push({ kind: 'line', marker: line, start: i, end, contentStart: i + line.length, contentEnd: end });
+      i = end;
+      continue;
+    }
+
+    const str = syntax.strings.find(s => text.startsWith(s.open, i));
+    if (str && !isTranspose(text, i, syntax)) {
+      const end = skipString(text, i, str);
+      const closed = text.startsWith(str.close, end - str.close.length) && end - i >= str.open.length + str.close.length;
+      tokens.push({
+        kind: str.docstring && isStatementStart(text, i) ? 'docstring' : 'string',
+        marker: str.open,
+        start: i,
+        end,
+        contentStart: i + str.open.length,
+        contentEnd: closed ? end - str.close.length : end
+      });
+      i = end;
+      continue;
+    }
+
+    if (syntax.regexLiterals && text[i] === '/') {
+      i = skipRegex(text, i);
+      continue;
+    }
+
+    if (syntax.urlFunctions && isUrlFunction(text, i)) {
+      i = skipUrlFunction(text, i);
+      continue;
+    }
+
+    if (syntax.charLiterals && text[i] === '\'') {
+      const match = /^'(?:\\(?:x[0-9a-fA-F]{2}|u\{[0-9a-fA-F]{1,6}\}|.)|[^\\'\r\n])'/.exec(text.slice(i, i + 12));
+      i += match ? match[0].length : 1; // Otherwise a lifetime ('a)
+      continue;
+    }
+
+    i++;
+  }
+
+  return tokens;
+}
+
+/**
+ * Find the comment containing an offset (e.g. the hovered position)
+ */
+export function findCommentAt(text: string, offset: number, languageId: string): CommentToken | undefined {
+  return extractComments(text, languageId).find(token => offset >= token.start && offset <= token.end);
+}
+
+/**
+ * Find the string literal containing an offset
+ */
+export function findStringAt(text: string, offset: number, languageId: string): CommentToken | undefined {
+  return tokenize(text, languageId).find(token => token.kind === 'string' && offset > token.start && offset < token.end);
+}
+
+/**
+ * Text between a comment's delimiters
+ */
+export function getCommentContent(text: string, token: CommentToken): string {
+  return text.slice(token.contentStart, token.contentEnd);
+}
+
+/**
+ * Remove repeated markers at the start of line comment content (///, ##, ;;;, %%)
+ */
+export function stripRepeatedMarker(content: string, marker: string): string {
+  if (marker !== '//' && marker.length !== 1) {
+    return content;
+  }
+  let i = 0;
+  while (content[i] === marker[0]) {
+    i++;
+  }
+  return content.slice(i);
+}
+
+function isLineCommentStart(text: string, index: number, marker: string, syntax: LanguageSyntax): boolean {
+  const before = text.slice(Math.max(0, index - 32), index);
+
+  if (syntax.lineNeedsWhitespace && index > 0 && !/[\s;]$/.test(before)) {
+    return false;
+  }
+  if (syntax.escapedMarkers && /(^|[^\\])(\\\\)*\\$/.test(before)) {
+    return false; // \% - odd number of backslashes
+  }
+
+  // http://example.com outside of a string (HTML text, Markdown) is not a comment
+  if (marker === '//' && /[a-zA-Z][a-zA-Z0-9+.-]*:$/.test(before) && /\S/.test(text[index + 2] ?? '')) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * CSS: url( at this offset, not the end of a longer name
+ */
+function isUrlFunction(text: string, index: number): boolean {
+  return /^url\(/i.test(text.slice(index, index + 4)) && !/[\w-]/.test(text[index - 1] ?? '');
+}
+
+/**
+ * Offset after an unquoted url(...), or after "url(" when it is not closed on its line
+ */
+function skipUrlFunction(text: string, index: number): number {
+  const close = text.indexOf(')', index + 4);
+  const lineEnd = text.indexOf('\n', index + 4);
+  return close === -1 || (lineEnd !== -1 && lineEnd < close) ? index + 4 : close + 1;
+}
+
+/**
+ * MATLAB: a quote right after an operand (x', A(1)', b.') transposes instead of starting a string
+ */
+function isTranspose(text: string, index: number, syntax: LanguageSyntax): boolean {
+  return !!syntax.transposeOperator && text[index] === '\'' && /[\w)\]}.']/.test(text[index - 1] ?? '');
+}
+
+/**
+ * Only whitespace (and a string prefix like r or u) precedes this offset on its line
+ */
+function isStatementStart(text: string, index: number): boolean {
+  const lineStart = text.lastIndexOf('\n', index - 1) + 1;
+  return /^\s*[rRuUbBfF]{0,2}$/.test(text.slice(lineStart, index));
+}
+
+function findLineEnd(text: string, index: number): number {
+  let end = text.indexOf('\n', index);
+  if (end === -1) {
+    end = text.length;
+  }
+  return text[end - 1] === '\r' ? end - 1 : end;
+}
+
+/**
+ * Offset right after the string literal starting at index
+ */
+function skipString(text: string, index: number, str: StringSyntax): number {
+  let j = index + str.open.length;
+
+  while (j < text.length) {
+    if (str.escape === 'backslash' && text[j] === '\\') {
+      j += 2;
+      continue;
+    }
+    if (text.startsWith(str.close, j)) {
+      if (str.escape === 'double' && text.startsWith(str.close, j + str.close.length)) {
+        j += str.close.length * 2;
+        continue;
+      }
+      return j + str.close.length;
+    }
+    if (text[j] === '\n' && !str.multiline) {
+      return j; // Unterminated - do not let it swallow the rest of the file
+    }
+    j++;
+  }
+
+  return text.length;
+}
+
+/**
+ * Offset after a regex literal at index, or index + 1 when the slash is a division
+ */
+function skipRegex(text: string, index: number): number {
+  let p = index - 1;
+  while (p >= 0 && /\s/.test(text[p])) {
+    p--;
+  }
+  const previous = p >= 0 ? text[p] : undefined;
+  const startsExpression = previous === undefined ||
+    '(,=:[!&|?{};+-*%<>~^'.includes(previous) ||
+    /\b(return|typeof|case|do|else|in|of|new|delete|void|throw|yield|await)$/.test(text.slice(Math.max(0, p - 9), p + 1));
+  if (!startsExpression) {
+    return index + 1;
+  }
+
+  let inClass = false;
+  for (let j = index + 1; j < text.length; j++) {
+    const c = text[j];
+    if (c === '\n') {
+      return index + 1; // Not a regex after all
+    }
+    if (c === '\\') {
+      j++;
+    } else if (c === '[') {
+      inClass = true;
+    } else if (c === ']') {
+      inClass = false;
+    } else if (c === '/' && !inClass) {
+      return j + 1;
+    }
+  }
+  return index + 1;
+}
@@ -0,0 +1,257 @@
+import { getConfig } from './config';
+import { CommentToken, getCommentContent, stripRepeatedMarker } from './commentExtractor';
+
+/**
+ * Comment paragraphs
+ * Groups adjacent comment lines (consecutive // lines, the lines of a block comment) into
+ * paragraphs so a wrapped sentence is translated once with its full context, and spreads
+ * a translation back over the original lines for display. Lines added by bilingual mode
+ * (starting with lmTranslator.bilingualPrefix) are recognised so they are never translated again.
+ */
+
+/**
+ * Where one line of a paragraph sits in the document (offsets of its trimmed text)
+ */
+export interface TextSpan {
+  start: number;
+  end: number;
+}
+
+/**
+ * Adjacent comment lines translated as one unit
+ */
+export interface CommentParagraph {
+  text: string; // Lines joined into one unit
+  start: number;
+  end: number; // Offset after the last character of the last line
+  lines: TextSpan[];
+}
+
+const CJK = /[\u3040-\u309F\u30A0-\u30FF\u4E00-\u9FAF]/;
+const CJK_END = /[\u3040-\u309F\u30A0-\u30FF\u4E00-\u9FAF\u3000-\u303F]$/;
+const CJK_START = /^[\u3040-\u309F\u30A0-\u30FF\u4E00-\u9FAF\u3000-\u303F]/;
+
+// A list item starts its own paragraph ("- foo", "* foo", "1. foo", "2) foo")
+const LIST_ITEM = /^([-+*•]|\d+[.)])\s/;
+
+/**
+ * Join wrapped lines with a space, or without one between CJK characters
+ */
+export function joinLines(lines: string[]): string {
+  return lines.reduce((joined, next) =>
+    !joined ? next : CJK_END.test(joined) && CJK_START.test(next) ? joined + next : `${joined} ${next}`, '');
+}
+
+/**
+ * Group comments into paragraphs
+ * Line comments that sit alone on consecutive lines at the same column are merged; block
+ * comments are split at blank lines. Blank comment lines and list items start a new paragraph.
+ */
+export function findParagraphs(text: string, comments: CommentToken[]): CommentParagraph[] {
+  const paragraphs: CommentParagraph[] = [];
+  let group: { text: string; span: TextSpan }[] = [];
+  let previous: CommentToken | undefined;
+
+  const flush = () => {
+    if (group.length > 0) {
+      paragraphs.push(createParagraph(group));
+      group = [];
+    }
+  };
+
+  for (const comment of comments) {
+    if (comment.kind !== 'line') {
+      flush();
+      previous = undefined;
+      paragraphs.push(...splitBlock(text, comment));
+      continue;
+    }
+
+    const continues = previous !== undefined && previous.marker === comment.marker &&
+      isOwnLine(text, previous) && isOwnLine(text, comment) &&
+      column(text, previous.start) === column(text, comment.start) &&
+      /^\r?\n[ \t]*$/.test(text.slice(previous.end, comment.start));
+    if (!continues) {
+      flush();
+    }
+    previous = comment;
+
+    const raw = stripRepeatedMarker(getCommentContent(text, comment), comment.marker);
+    const line = raw.trim();
+    if (!line || LIST_ITEM.test(line)) {
+      flush();
+    }
+    if (line) {
+      const start = comment.end - raw.trimStart().length;
+      group.push({ text: line, span: { start, end: start + line.length } });
+    }
+  }
+
+  flush();
+  return paragraphs;
+}
+
+/**
+ * Label that starts the lines added by bilingual mode, e.g. "[Vietnamese]"
+ */
+export function getBilingualLabel(targetLanguage: string): string {
+  return getConfig().bilingualPrefix.trim().split('{{language}}').join(targetLanguage);
+}
+
+/**
+ * Start offsets of the comment lines added by bilingual mode
+ * Only labels naming one of the target languages count, so comments like "// [HACK] ..." are kept.
+ * @param targetLanguages Languages the lines may have been added for
+ */
+export function findGeneratedLines(text: string, comments: CommentToken[], targetLanguages: string[]): Set<number> {
+  const generated = new Set<number>();
+  const languages = targetLanguages.map(language => escapeRegExp(language.trim())).filter(Boolean);
+  if (languages.length === 0) {
+    return generated;
+  }
+
+  const label = getConfig().bilingualPrefix.trim()
+    .split('{{language}}')
+    .map(escapeRegExp)
+    .join(`(?:${languages.join('|')})`);
+  const pattern = new RegExp(`^${label}(\\s|$)`);
+
+  for (const comment of comments) {
+    let offset = comment.contentStart;
+    for (const raw of getCommentContent(text, comment).split('\n')) {
+      let body = comment.kind === 'line' ? stripRepeatedMarker(raw, comment.marker).replace(/^!/, '') : raw; // ///, //!
+      if (comment.marker === '/*') {
+        body = body.replace(/^\s*\*+/, '');
+      }
+      if (pattern.test(body.trim())) {
+        generated.add(text.lastIndexOf('\n', offset - 1) + 1);
+      }
+      offset += raw.length + 1;
+    }
+  }
+
+  return generated;
+}
+
+/**
+ * Drop the lines added by bilingual mode from paragraphs, splitting paragraphs around them
+ * @param targetLanguages Languages the lines may have been added for
+ */
+export function removeGeneratedLines(
+  text: string,
+  comments: CommentToken[],
+  paragraphs: CommentParagraph[],
+  targetLanguages: string[]
+): CommentParagraph[] {
+  const generated = findGeneratedLines(text, comments, targetLanguages);
+  if (generated.size === 0) {
+    return paragraphs;
+  }
+
+  const result: CommentParagraph[] = [];
+  for (const paragraph of paragraphs) {
+    let run: TextSpan[] = [];
+    for (const line of [...paragraph.lines, undefined]) {
+      if (line && !generated.has(text.lastIndexOf('\n', line.start - 1) + 1)) {
+        run.push(line);
+      } else if (run.length > 0) {
+        result.push(run.length === paragraph.lines.length
+          ? paragraph
+          : createParagraph(run.map(span => ({ text: text.slice(span.start, span.end), span }))));
+        run = [];
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Split a translation over lines in proportion to the original line lengths
+ * Breaks between words, or between characters for text without spaces (CJK).
+ * @returns One part per line; later lines may get an empty part when the translation is short
+ */
+export function spreadTranslation(translation: string, lineLengths: number[]): string[] {
+  const trimmed = translation.trim();
+  if (lineLengths.length <= 1) {
+    return [trimmed];
+  }
+
+  const hasSpaces = /\s/.test(trimmed);
+  const units = hasSpaces ? trimmed.split(/\s+/) : CJK.test(trimmed) ? Array.from(trimmed) : [trimmed];
+  const unitTotal = units.reduce((sum, unit) => sum + unit.length, 0);
+  const lineTotal = lineLengths.reduce((sum, length) => sum + length, 0) || lineLengths.length;
+  const parts: string[][] = lineLengths.map(() => []);
+
+  let line = 0;
+  let used = 0;
+  let boundary = lineLengths[0] / lineTotal * unitTotal;
+
+  for (const unit of units) {
+    // Move to the next line once this one has its share (a unit goes where most of it fits)
+    while (line < lineLengths.length - 1 && used + unit.length / 2 > boundary && parts[line].length > 0) {
+      line++;
+      boundary += lineLengths[line] / lineTotal * unitTotal;
+    }
+    parts[line].push(unit);
+    used += unit.length;
+  }
+
+  return parts.map(part => part.join(hasSpaces ? ' ' : ''));
+}
+
+/**
+ * Paragraphs of a block comment (leading * of decorative /* comments removed)
+ */
+function splitBlock(text: string, comment: CommentToken): CommentParagraph[] {
+  const paragraphs: CommentParagraph[] = [];
+  let group: { text: string; span: TextSpan }[] = [];
+  let offset = comment.contentStart;
+
+  for (const raw of getCommentContent(text, comment).split('\n')) {
+    const line = raw.replace(/\r$/, '');
+    const prefixLength = comment.marker === '/*' ? (/^\s*\*+/.exec(line)?.[0].length ?? 0) : 0;
+    const body = line.slice(prefixLength);
+    const trimmed = body.trim();
+
+    if ((!trimmed || LIST_ITEM.test(trimmed)) && group.length > 0) {
+      paragraphs.push(createParagraph(group));
+      group = [];
+    }
+    if (trimmed) {
+      const start = offset + prefixLength + (body.length - body.trimStart().length);
+      group.push({ text: trimmed, span: { start, end: start + trimmed.length } });
+    }
+
+    offset += raw.length + 1;
+  }
+
+  if (group.length > 0) {
+    paragraphs.push(createParagraph(group));
+  }
+  return paragraphs;
+}
+
+function createParagraph(group: { text: string; span: TextSpan }[]): CommentParagraph {
+  return {
+    text: joinLines(group.map(line => line.text)),
+    start: group[0].span.start,
+    end: group[group.length - 1].span.end,
+    lines: group.map(line => line.span)
+  };
+}
+
+/**
+ * Only whitespace precedes the comment on its line (not a trailing comment after code)
+ */
+function isOwnLine(text: string, comment: CommentToken): boolean {
+  const lineStart = text.lastIndexOf('\n', comment.start - 1) + 1;
+  return /^[ \t]*$/.test(text.slice(lineStart, comment.start));
+}
+
+function column(text: string, offset: number): number {
+  return offset - (text.lastIndexOf('\n', offset - 1) + 1);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,180 @@
+import * as vscode from 'vscode';
+import { TranslationServiceManager } from './translationService';
+import { getConfig, getTargetLanguages } from './config';
+import { TranslationResult } from './types';
+import { CommentLocation, findCommentLocations } from './translatableText';
+
+/**
+ * Comment rewriting
+ * Replaces comment text with its translation in the editor, re-wrapped like the original lines.
+ */
+
+// East Asian wide and fullwidth characters take two columns
+const WIDE = /[\u1100-\u115F\u2E80-\uA4CF\uAC00-\uD7A3\uF900-\uFAFF\uFE30-\uFE4F\uFF00-\uFF60\uFFE0-\uFFE6]/g;
+const CJK = /[\u3040-\u309F\u30A0-\u30FF\u4E00-\u9FAF]/;
+
+/**
+ * Translate the comments in the selection (or the whole file) in place
+ * Only the text of each paragraph is replaced; markers, leading *, indentation and docblock tags
+ * are kept. All replacements are applied as one edit, so a single undo restores the original.
+ */
+export async function translateComments(): Promise<void> {
+  const editor = vscode.window.activeTextEditor;
+  if (!editor) {
+    vscode.window.showWarningMessage('No active text editor');
+    return;
+  }
+
+  const document = editor.document;
+  const text = document.getText();
+  const scope = editor.selection.isEmpty
+    ? undefined
+    : { start: document.offsetAt(editor.selection.start), end: document.offsetAt(editor.selection.end) };
+
+  const locations = findCommentLocations(text, document.languageId, getTargetLanguages(document))
+    .filter(({ paragraph }) => !scope || (paragraph.start < scope.end && paragraph.end > scope.start));
+
+  if (locations.length === 0) {
+    vscode.window.showInformationMessage(`LM Translator: No comments to translate in the ${scope ? 'selection' : 'file'}`);
+    return;
+  }
+
+  const version = document.version;
+  const results = await translateLocations(document, locations, 'LM Translator: Translating comments');
+  if (!results) {
+    return;
+  }
+  if (document.version !== version) {
+    vscode.window.showWarningMessage('LM Translator: The document changed while translating, no comments were replaced');
+    return;
+  }
+
+  const edit = new vscode.WorkspaceEdit();
+  let replaced = 0;
+  locations.forEach((location, i) => {
+    const replacement = rewriteParagraph(text, location, results[i].translatedText);
+    if (replacement !== undefined) {
+      const { start, end } = location.paragraph;
+      edit.replace(document.uri, new vscode.Range(document.positionAt(start), document.positionAt(end)), replacement);
+      replaced++;
+    }
+  });
+
+  if (replaced > 0) {
+    await vscode.workspace.applyEdit(edit);
+  }
+  vscode.window.showInformationMessage(`LM Translator: Translated ${replaced} comment${replaced === 1 ? '' : 's'}`);
+}
+
+/**
+ * Translate paragraphs of a document in batches behind a cancellable progress notification
+ * @returns undefined when cancelled or failed (the error has been shown)
+ */
+export async function translateLocations(
+  document: vscode.TextDocument,
+  locations: CommentLocation[],
+  title: string
+): Promise<TranslationResult[] | undefined> {
+  const service = TranslationServiceManager.getInstance();
+  const batchSize = Math.max(1, getConfig().batchSize);
+
+  return vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title,
+      cancellable: true
+    },
+    async (progress, token) => {
+      const results: TranslationResult[] = [];
+
+      try {
+        for (let i = 0; i < locations.length; i += batchSize) {
+          const batch = locations.slice(i, i + batchSize);
+          results.push(...await service.translateBatch(batch.map(l => l.paragraph.text), undefined, {
+            priority: 'interactive',
+            token,
+            document
+          }));
+          progress.report({
+            message: `${results.length}/${locations.length} comments`,
+            increment: batch.length / locations.length * 100
+          });
+        }
+      } catch (error) {
+        if (error instanceof vscode.CancellationError) {
+          return undefined;
+        }
+        const errorMessage = error instanceof Error ? error.message : 'Translation failed';
+        vscode.window.showErrorMessage(`Translation error: ${errorMessage}`);
+        return undefined;
+      }
+
+      return token.isCancellationRequested ? undefined : results;
+    }
+  );
+}
+
+/**
+ * The text that replaces a paragraph: the translation wrapped at the width of the original lines,
+ * continuation lines starting with the same prefix as the original second line (e.g. "\n * ", "\n// ")
+ * @returns undefined when the paragraph should be left alone
+ */
+export function rewriteParagraph(text: string, location: CommentLocation, translation: string): string | undefined {
+  const { paragraph, token } = location;
+  const translated = translation.replace(/\s+/g, ' ').trim();
+
+  // A translation containing the closing delimiter (*/, -->, """) would end the comment early
+  const close = text.slice(token.contentEnd, token.end);
+  if (!translated || translated === paragraph.text || (close && translated.includes(close))) {
+    return undefined;
+  }
+
+  const lines = paragraph.lines;
+  if (lines.length === 1) {
+    return translated;
+  }
+
+  const separator = text.slice(lines[0].end, lines[1].start).replace(/^[ \t]+/, ''); // Drop trailing spaces
+  const prefix = separator.replace(/^\r?\n/, '');
+  const width = Math.max(...lines.map(line => columnOf(text, line.end)));
+
+  return wrap(translated, width - columnOf(text, lines[0].start), width - displayWidth(prefix)).join(separator);
+}
+
+/**
+ * Greedy word wrap (character wrap for text without spaces, e.g. Japanese)
+ */
+export function wrap(text: string, firstWidth: number, width: number): string[] {
+  const hasSpaces = / /.test(text);
+  const units = hasSpaces ? text.split(' ') : CJK.test(text) ? Array.from(text) : [text];
+  const lines: string[] = [];
+  let current = '';
+
+  for (const unit of units) {
+    const candidate = !current ? unit : hasSpaces ? `${current} ${unit}` : current + unit;
+    const limit = lines.length === 0 ? firstWidth : width;
+    if (current && displayWidth(candidate) > limit) {
+      lines.push(current);
+      current = unit;
+    } else {
+      current = candidate;
+    }
+  }
+
+  lines.push(current);
+  return lines;
+}
+
+/**
+ * Display column of an offset on its line
+ */
+export function columnOf(text: string, offset: number): number {
+  return displayWidth(text.slice(text.lastIndexOf('\n', offset - 1) + 1, offset));
+}
+
+/**
+ * Width in columns (tabs count as four, wide characters as two)
+ */
+export function displayWidth(value: string): number {
+  return value.replace(/\t/g, '    ').length + (value.match(WIDE)?.length ?? 0);
+}
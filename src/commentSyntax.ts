@@ -0,0 +1,273 @@
+import { CommentSyntaxSetting } from './types';
+
+/**
+ * Comment syntax registry
+ * Describes, per VS Code language ID, which delimiters start comments and docstrings
+ * and which string literals must be skipped while looking for them.
+ * Users add or override entries with lmTranslator.commentSyntax.
+ */
+
+export interface StringSyntax {
+  open: string;
+  close: string;
+  escape: 'backslash' | 'double' | 'none'; // 'double' = '' inside '...' (SQL, YAML, VB)
+  multiline?: boolean; // Otherwise an unterminated string ends at the line break
+  docstring?: boolean; // Counts as a comment when it is the first thing on its line (Python)
+}
+
+export interface BlockSyntax {
+  open: string;
+  close: string;
+  lineStart?: boolean; // Delimiter only counts at the start of a line (Ruby =begin, MATLAB %{)
+}
+
+export interface LanguageSyntax {
+  line: string[];
+  block: BlockSyntax[];
+  strings: StringSyntax[];
+  lineNeedsWhitespace?: boolean; // '#' only starts a comment at a word boundary (shell: $#, ${#x})
+  escapedMarkers?: boolean; // LaTeX: \% is a literal percent sign
+  regexLiterals?: boolean; // JavaScript: /"/g is a regex, not a string
+  charLiterals?: boolean; // Rust: 'a' is a char, 'a alone is a lifetime
+  transposeOperator?: boolean; // MATLAB: a' is a transpose, not the start of a string
+  urlFunctions?: boolean; // CSS: url(//cdn.example.com/x.png) is a URL, not a comment
+}
+
+const C_BLOCK: BlockSyntax = { open: '/*', close: '*/' };
+const HTML_BLOCK: BlockSyntax = { open: '<!--', close: '-->' };
+
+const DOUBLE_QUOTE: StringSyntax = { open: '"', close: '"', escape: 'backslash' };
+const SINGLE_QUOTE: StringSyntax = { open: '\'', close: '\'', escape: 'backslash' };
+
+const C_LIKE: LanguageSyntax = {
+  line: ['//'],
+  block: [C_BLOCK],
+  strings: [DOUBLE_QUOTE, SINGLE_QUOTE]
+};
+
+const JS_LIKE: LanguageSyntax = {
+  ...C_LIKE,
+  strings: [DOUBLE_QUOTE, SINGLE_QUOTE, { open: '`', close: '`', escape: 'backslash', multiline: true }],
+  regexLiterals: true
+};
+
+const HASH_LIKE: LanguageSyntax = {
+  line: ['#'],
+  block: [],
+  strings: [DOUBLE_QUOTE, SINGLE_QUOTE],
+  lineNeedsWhitespace: true
+};
+
+const SQL_LIKE: LanguageSyntax = {
+  line: ['--'],
+  block: [C_BLOCK],
+  strings: [
+    { open: '\'', close: '\'', escape: 'double', multiline: true },
+    { open: '"', close: '"', escape: 'double', multiline: true }
+  ]
+};
+
+const CSS_LIKE: LanguageSyntax = {
+  ...C_LIKE,
+  urlFunctions: true
+};
+
+const HTML_LIKE: LanguageSyntax = {
+  line: ['//'], // Inline <script> blocks
+  block: [HTML_BLOCK, C_BLOCK],
+  strings: [DOUBLE_QUOTE] // Apostrophes in prose are too common to treat ' as a quote
+};
+
+const LISP_LIKE: LanguageSyntax = {
+  line: [';'],
+  block: [{ open: '#|', close: '|#' }],
+  strings: [{ ...DOUBLE_QUOTE, multiline: true }]
+};
+
+const TEX_LIKE: LanguageSyntax = {
+  line: ['%'],
+  block: [{ open: '\\begin{comment}', close: '\\end{comment}' }],
+  strings: [],
+  escapedMarkers: true
+};
+
+const FALLBACK: LanguageSyntax = {
+  line: ['//'],
+  block: [C_BLOCK, HTML_BLOCK],
+  strings: [DOUBLE_QUOTE, SINGLE_QUOTE]
+};
+
+/**
+ * Built-in entries by language ID
+ */
+const BUILTIN_SYNTAX: Record<string, LanguageSyntax> = {
+  // Languages that use // for single-line comments
+  javascript: JS_LIKE,
+  typescript: JS_LIKE,
+  javascriptreact: JS_LIKE,
+  typescriptreact: JS_LIKE,
+  java: C_LIKE,
+  c: C_LIKE,
+  cpp: C_LIKE,
+  csharp: C_LIKE,
+  go: { ...C_LIKE, strings: [DOUBLE_QUOTE, SINGLE_QUOTE, { open: '`', close: '`', escape: 'none', multiline: true }] },
+  rust: { ...C_LIKE, strings: [{ ...DOUBLE_QUOTE, multiline: true }], charLiterals: true },
+  swift: { ...C_LIKE, strings: [{ open: '"""', close: '"""', escape: 'backslash', multiline: true }, DOUBLE_QUOTE] },
+  kotlin: { ...C_LIKE, strings: [{ open: '"""', close: '"""', escape: 'none', multiline: true }, DOUBLE_QUOTE, SINGLE_QUOTE] },
+  php: { ...C_LIKE, strings: [{ ...DOUBLE_QUOTE, multiline: true }, { ...SINGLE_QUOTE, multiline: true }] },
+  scss: CSS_LIKE,
+  less: CSS_LIKE,
+  json: { ...C_LIKE, strings: [DOUBLE_QUOTE] },
+  jsonc: { ...C_LIKE, strings: [DOUBLE_QUOTE] },
+
+  // Block comments only
+  css: { ...CSS_LIKE, line: [] },
+
+  // Languages that use # for single-line comments
+  python: {
+    line: ['#'],
+    block: [],
+    strings: [
+      { open: '"""', close: '"""', escape: 'backslash', multiline: true, docstring: true },
+      { open: '\'\'\'', close: '\'\'\'', escape: 'backslash', multiline: true, docstring: true },
+      DOUBLE_QUOTE,
+      SINGLE_QUOTE
+    ]
+  },
+  ruby: {
+    line: ['#'],
+    block: [{ open: '=begin', close: '=end', lineStart: true }],
+    strings: [{ ...DOUBLE_QUOTE, multiline: true }, { ...SINGLE_QUOTE, multiline: true }]
+  },
+  perl: HASH_LIKE,
+  shellscript: {
+    ...HASH_LIKE,
+    strings: [{ ...DOUBLE_QUOTE, multiline: true }, { open: '\'', close: '\'', escape: 'none', multiline: true }]
+  },
+  yaml: { ...HASH_LIKE, strings: [DOUBLE_QUOTE, { open: '\'', close: '\'', escape: 'double' }] },
+  toml: {
+    line: ['#'],
+    block: [],
+    strings: [
+      { open: '"""', close: '"""', escape: 'backslash', multiline: true },
+      { open: '\'\'\'', close: '\'\'\'', escape: 'none', multiline: true },
+      DOUBLE_QUOTE,
+      { open: '\'', close: '\'', escape: 'none' }
+    ]
+  },
+  dockerfile: HASH_LIKE,
+  powershell: {
+    line: ['#'],
+    block: [{ open: '<#', close: '#>' }],
+    strings: [
+      { open: '"', close: '"', escape: 'none', multiline: true }, // Escapes use the backtick
+      { open: '\'', close: '\'', escape: 'double', multiline: true }
+    ]
+  },
+
+  // Languages that use -- for single-line comments
+  sql: SQL_LIKE,
+  plsql: SQL_LIKE,
+  lua: {
+    line: ['--'],
+    block: [{ open: '--[[', close: ']]' }],
+    strings: [DOUBLE_QUOTE, SINGLE_QUOTE, { open: '[[', close: ']]', escape: 'none', multiline: true }]
+  },
+  haskell: { line: ['--'], block: [{ open: '{-', close: '-}' }], strings: [DOUBLE_QUOTE] },
+
+  // Other line comment markers
+  vb: { line: ['\''], block: [], strings: [{ open: '"', close: '"', escape: 'double' }] },
+  lisp: LISP_LIKE,
+  commonlisp: LISP_LIKE,
+  scheme: LISP_LIKE,
+  racket: LISP_LIKE,
+  clojure: { ...LISP_LIKE, block: [] },
+  matlab: {
+    line: ['%'],
+    block: [{ open: '%{', close: '%}', lineStart: true }],
+    strings: [{ open: '\'', close: '\'', escape: 'double' }, { open: '"', close: '"', escape: 'double' }],
+    transposeOperator: true
+  },
+  latex: TEX_LIKE,
+  tex: TEX_LIKE,
+  bibtex: { ...TEX_LIKE, block: [] },
+
+  // PHTML/HTML - use // only (avoid jQuery $ issues with #)
+  html: HTML_LIKE,
+  phtml: HTML_LIKE,
+  blade: HTML_LIKE,
+  twig: HTML_LIKE,
+  ejs: HTML_LIKE,
+  handlebars: HTML_LIKE,
+  vue: HTML_LIKE
+};
+
+/**
+ * Source of the user entries (lmTranslator.commentSyntax), set on activation
+ * Kept out of this module so the registry and the scanner built on it run without the VS Code API.
+ */
+let userSyntaxSource: () => Record<string, CommentSyntaxSetting> = () => ({});
+
+/**
+ * Set where user entries are read from (called on every lookup, so setting changes apply at once)
+ */
+export function setUserSyntaxSource(source: () => Record<string, CommentSyntaxSetting>): void {
+  userSyntaxSource = source;
+}
+
+/**
+ * Get the comment and string rules for a language
+ * User entries (lmTranslator.commentSyntax) replace the fields they set on the built-in entry.
+ */
+export function getCommentSyntax(languageId: string): LanguageSyntax {
+  const userSyntax = userSyntaxSource()[languageId];
+  if (!userSyntax) {
+    // Default fallback: // and block comments only (safest)
+    return BUILTIN_SYNTAX[languageId] || FALLBACK;
+  }
+
+  const base = (userSyntax.extends && BUILTIN_SYNTAX[userSyntax.extends]) || BUILTIN_SYNTAX[languageId] || FALLBACK;
+  return applySetting(base, userSyntax);
+}
+
+function applySetting(base: LanguageSyntax, setting: CommentSyntaxSetting): LanguageSyntax {
+  const syntax: LanguageSyntax = { ...base };
+
+  if (Array.isArray(setting.line)) {
+    syntax.line = setting.line
+      .filter(marker => typeof marker === 'string' && marker.length > 0)
+      .sort((a, b) => b.length - a.length);
+  }
+  if (Array.isArray(setting.block)) {
+    syntax.block = toPairs(setting.block).map(([open, close]) => ({ open, close }));
+  }
+
+  // Docstrings and strings share one list; replace only the kind the user configured
+  if (Array.isArray(setting.docstring)) {
+    syntax.strings = [
+      ...toPairs(setting.docstring).map(([open, close]): StringSyntax =>
+        ({ open, close, escape: 'backslash', multiline: true, docstring: true })),
+      ...syntax.strings.filter(s => !s.docstring)
+    ];
+  }
+  if (Array.isArray(setting.strings)) {
+    syntax.strings = [
+      ...syntax.strings.filter(s => s.docstring),
+      ...toPairs(setting.strings).map(([open, close]): StringSyntax => ({ open, close, escape: 'backslash' }))
+    ];
+  }
+
+  return syntax;
+}
+
+/**
+ * Keep well-formed [open, close] pairs, longest opening delimiter first (''' before ')
+ */
+function toPairs(value: unknown[]): [string, string][] {
+  return value
+    .filter((pair): pair is [string, string] =>
+      Array.isArray(pair) && pair.length === 2 &&
+      typeof pair[0] === 'string' && pair[0].length > 0 &&
+      typeof pair[1] === 'string' && pair[1].length > 0)
+    .sort((a, b) => b[0].length - a[0].length);
+}
@@ -1,5 +1,13 @@
 import * as vscode from 'vscode';
-import { LMTranslatorConfig, TranslationProvider } from './types';
+import {
+  LMTranslatorConfig,
+  TranslationProvider,
+  TranslationProfile,
+  TranslationRoute,
+  GlossaryTerm,
+  CommentSyntaxSetting
+} from './types';
+import { DocumentInfo, FolderConfig } from './folderConfig';
 
 /**
  * Default configuration values
@@ -8,55 +16,183 @@ const DEFAULT_CONFIG: LMTranslatorConfig = {
   apiUrl: 'http://localhost:1234/v1',
   model: '',
   targetLanguage: 'Vietnamese',
+  targetLanguages: [],
+  sourceLanguage: 'auto',
+  sourceLanguageDetection: 'local',
+  skipSameLanguageEnabled: true,
+  skipSameLanguageConfidence: 0.8,
   enableHover: true,
   hoverDelay: 500,
   decorationMode: 'off',
+  paragraphDisplay: 'lastLine',
+  bilingualPrefix: '[{{language}}]',
   maxTokens: 512,
   cacheTTL: 604800000, // 7 days in ms
   maxCacheSize: 10000,
   promptTemplate: '{{text}}', // Simple template by default
-  provider: 'LM Studio'
+  provider: 'LM Studio',
+  enableStreaming: true,
+  openAICompatibleUrl: 'http://localhost:11434/v1',
+  openAICompatibleModel: '',
+  openAICompatibleHeaders: {},
+  temperature: 0.1, // Low temp for precision
+  fallbackProviders: [],
+  batchSize: 20,
+  maxConcurrentRequests: 2,
+  glossary: [],
+  doNotTranslate: [],
+  commentSyntax: {},
+  stringLiteralsEnabled: false,
+  stringLiteralsLanguages: [],
+  stringLiteralsMinLength: 4,
+  workspaceTranslationInclude: '**/*.{ts,tsx,js,jsx,mjs,cjs,vue,py,rb,php,java,kt,scala,go,rs,swift,c,h,cpp,hpp,cc,cs,m,lua,sql,sh,ps1,hs,pl,r,dart,css,scss,less}',
+  workspaceTranslationExclude: '**/{node_modules,bower_components,.git,out,dist,build,target,vendor,coverage,.venv,venv,__pycache__,.next,.nuxt}/**',
+  routes: []
 };
 
 /**
  * Get the extension configuration
+ * @param document File the settings apply to: folder settings and .lmtranslator.json are
+ * resolved for it (see folderConfig.ts). Without one, workspace-level settings apply.
  */
-export function getConfig(): LMTranslatorConfig {
-  const config = vscode.workspace.getConfiguration('lmTranslator');
+export function getConfig(document?: DocumentInfo): LMTranslatorConfig {
+  const config = vscode.workspace.getConfiguration('lmTranslator', document?.uri);
 
-  return {
+  const baseConfig: LMTranslatorConfig = {
     apiUrl: config.get<string>('apiUrl') || DEFAULT_CONFIG.apiUrl,
     model: config.get<string>('model') || DEFAULT_CONFIG.model,
     targetLanguage: config.get<string>('targetLanguage') || DEFAULT_CONFIG.targetLanguage,
+    targetLanguages: config.get<string[]>('targetLanguages') || DEFAULT_CONFIG.targetLanguages,
+    sourceLanguage: config.get<string>('sourceLanguage')?.trim() || DEFAULT_CONFIG.sourceLanguage,
+    sourceLanguageDetection: config.get<'local' | 'model'>('sourceLanguageDetection') || DEFAULT_CONFIG.sourceLanguageDetection,
+    skipSameLanguageEnabled: config.get<boolean>('skipSameLanguage.enabled') ?? DEFAULT_CONFIG.skipSameLanguageEnabled,
+    skipSameLanguageConfidence: config.get<number>('skipSameLanguage.confidence') ?? DEFAULT_CONFIG.skipSameLanguageConfidence,
     enableHover: config.get<boolean>('enableHover') ?? DEFAULT_CONFIG.enableHover,
     hoverDelay: config.get<number>('hoverDelay') || DEFAULT_CONFIG.hoverDelay,
     decorationMode: config.get<'off' | 'inline' | 'highlighted'>('decorationMode') || DEFAULT_CONFIG.decorationMode,
+    paragraphDisplay: config.get<'lastLine' | 'spread'>('paragraphDisplay') || DEFAULT_CONFIG.paragraphDisplay,
+    bilingualPrefix: config.get<string>('bilingualPrefix')?.trim() || DEFAULT_CONFIG.bilingualPrefix,
     maxTokens: config.get<number>('maxTokens') || DEFAULT_CONFIG.maxTokens,
     cacheTTL: config.get<number>('cacheTTL') || DEFAULT_CONFIG.cacheTTL,
     maxCacheSize: config.get<number>('maxCacheSize') || DEFAULT_CONFIG.maxCacheSize,
     promptTemplate: config.get<string>('promptTemplate') || DEFAULT_CONFIG.promptTemplate,
-    provider: config.get<TranslationProvider>('provider') || 'LM Studio'
+    provider: config.get<TranslationProvider>('provider') || 'LM Studio',
+    enableStreaming: config.get<boolean>('enableStreaming') ?? DEFAULT_CONFIG.enableStreaming,
+    openAICompatibleUrl: config.get<string>('openAICompatible.apiUrl') || DEFAULT_CONFIG.openAICompatibleUrl,
+    openAICompatibleModel: config.get<string>('openAICompatible.model') || DEFAULT_CONFIG.openAICompatibleModel,
+    openAICompatibleHeaders: config.get<Record<string, string>>('openAICompatible.headers') || DEFAULT_CONFIG.openAICompatibleHeaders,
+    temperature: config.get<number>('temperature') ?? DEFAULT_CONFIG.temperature,
+    fallbackProviders: config.get<TranslationProvider[]>('fallbackProviders') || DEFAULT_CONFIG.fallbackProviders,
+    batchSize: config.get<number>('batchSize') || DEFAULT_CONFIG.batchSize,
+    maxConcurrentRequests: config.get<number>('maxConcurrentRequests') || DEFAULT_CONFIG.maxConcurrentRequests,
+    glossary: config.get<GlossaryTerm[]>('glossary') || DEFAULT_CONFIG.glossary,
+    doNotTranslate: config.get<string[]>('doNotTranslate') || DEFAULT_CONFIG.doNotTranslate,
+    commentSyntax: config.get<Record<string, CommentSyntaxSetting>>('commentSyntax') || DEFAULT_CONFIG.commentSyntax,
+    stringLiteralsEnabled: config.get<boolean>('stringLiterals.enabled') ?? DEFAULT_CONFIG.stringLiteralsEnabled,
+    stringLiteralsLanguages: config.get<string[]>('stringLiterals.languages') || DEFAULT_CONFIG.stringLiteralsLanguages,
+    stringLiteralsMinLength: config.get<number>('stringLiterals.minLength') ?? DEFAULT_CONFIG.stringLiteralsMinLength,
+    workspaceTranslationInclude: config.get<string>('workspaceTranslation.include') || DEFAULT_CONFIG.workspaceTranslationInclude,
+    workspaceTranslationExclude: config.get<string>('workspaceTranslation.exclude') ?? DEFAULT_CONFIG.workspaceTranslationExclude,
+    routes: (config.get<TranslationRoute[]>('routes') || DEFAULT_CONFIG.routes).filter(route => route && typeof route === 'object')
   };
+
+  const profile = getActiveProfile();
+  const profileConfig = profile ? applyProfile(baseConfig, profile) : baseConfig;
+
+  // .lmtranslator.json is the most specific: it wins over settings and profiles
+  return { ...profileConfig, ...FolderConfig.getInstance().getSettings(document) };
+}
+
+/**
+ * Get all configured provider profiles
+ */
+export function getProfiles(): TranslationProfile[] {
+  const profiles = vscode.workspace.getConfiguration('lmTranslator').get<TranslationProfile[]>('profiles') || [];
+  return profiles.filter(p => p && typeof p.name === 'string' && p.name.trim().length > 0);
+}
+
+/**
+ * Get the active profile (workspace setting wins over user setting)
+ */
+export function getActiveProfile(): TranslationProfile | undefined {
+  const name = vscode.workspace.getConfiguration('lmTranslator').get<string>('activeProfile');
+  if (!name) {
+    return undefined;
+  }
+  return getProfiles().find(p => p.name === name);
+}
+
+/**
+ * Overlay profile fields on top of the regular settings
+ */
+function applyProfile(config: LMTranslatorConfig, profile: TranslationProfile): LMTranslatorConfig {
+  const result: LMTranslatorConfig = {
+    ...config,
+    activeProfile: profile.name,
+    provider: profile.provider || config.provider,
+    temperature: profile.temperature ?? config.temperature,
+    maxTokens: profile.maxTokens || config.maxTokens,
+    promptTemplate: profile.promptTemplate || config.promptTemplate
+  };
+
+  // URL and model belong to whichever endpoint the profile's provider uses
+  if (result.provider === 'OpenAI Compatible') {
+    result.openAICompatibleUrl = profile.apiUrl || config.openAICompatibleUrl;
+    result.openAICompatibleModel = profile.model ?? config.openAICompatibleModel;
+  } else {
+    result.apiUrl = profile.apiUrl || config.apiUrl;
+    result.model = profile.model ?? config.model;
+  }
+
+  return result;
+}
+
+/**
+ * Every language to translate into: lmTranslator.targetLanguage (the primary one, shown in
+ * inline decorations) followed by the other entries of lmTranslator.targetLanguages
+ * @param document File the languages are resolved for
+ */
+export function getTargetLanguages(document?: DocumentInfo): string[] {
+  const config = getConfig(document);
+  const languages = [config.targetLanguage];
+  for (const language of config.targetLanguages.map(l => l.trim())) {
+    if (language && !languages.some(l => l.toLowerCase() === language.toLowerCase())) {
+      languages.push(language);
+    }
+  }
+  return languages;
+}
+
+/**
+ * Source language set with lmTranslator.sourceLanguage
+ * @returns undefined when the source language is detected automatically
+ */
+export function getSourceLanguage(): string | undefined {
+  const source = getConfig().sourceLanguage;
+  return source.toLowerCase() === 'auto' ? undefined : source;
 }
 
 /**
  * Build the translation prompt from template
+ * @param promptTemplate Template of a routing rule, replacing lmTranslator.promptTemplate
+ * @param document File the text comes from (its folder may set another template)
  */
-export function buildPrompt(text: string, targetLanguage?: string): string {
-  const config = getConfig();
+export function buildPrompt(text: string, targetLanguage?: string, promptTemplate?: string, document?: DocumentInfo): string {
+  const config = getConfig(document);
   const lang = targetLanguage || config.targetLanguage;
-  const template = config.promptTemplate;
+  const template = promptTemplate || config.promptTemplate;
 
   return template
     .replace(/\{\{text\}\}/g, text)
-    .replace(/\{\{targetLanguage\}\}/g, lang);
+    .replace(/\{\{targetLanguage\}\}/g, lang)
+    .replace(/\{\{sourceLanguage\}\}/g, getSourceLanguage() || 'the original language');
 }
 
 /**
  * Get API URL with endpoint
+ * @param baseUrl Base URL to use (defaults to the LM Studio apiUrl)
  */
-export function getApiEndpoint(endpoint: string): string {
-  const config = getConfig();
-  const baseUrl = config.apiUrl.replace(/\/+$/, ''); // Remove trailing slashes
-  return `${baseUrl}${endpoint}`;
+export function getApiEndpoint(endpoint: string, baseUrl?: string): string {
+  const base = (baseUrl || getConfig().apiUrl).replace(/\/+$/, ''); // Remove trailing slashes
+  return `${base}${endpoint}`;
 }
@@ -0,0 +1,472 @@
+import { CommentToken } from './commentExtractor';
+import { joinLines, TextSpan } from './commentParagraphs';
+
+/**
+ * Docblock parser
+ * Splits documentation comments (JSDoc, PHPDoc, JavaDoc, Python docstrings in Google/NumPy/reST
+ * style, Rust /// and //! docs) into logical descriptions. Wrapped lines are joined into one unit;
+ * tags, types, parameter names and code examples are left out so they are never translated.
+ */
+
+/**
+ * One translatable description of a docblock
+ */
+export interface DocDescription {
+  text: string; // Wrapped lines joined into one unit
+  start: number; // Offset of the first character of the description
+  end: number; // Offset after its last character (decorations go here)
+  lines: TextSpan[]; // The wrapped lines it was joined from
+}
+
+/**
+ * A documentation comment, made of one block/docstring token or several adjacent /// lines
+ */
+export interface Docblock {
+  start: number;
+  end: number;
+  tokens: CommentToken[];
+  descriptions: DocDescription[];
+}
+
+/**
+ * One line of a docblock with its comment prefix removed
+ */
+interface DocLine {
+  text: string; // Trimmed
+  indent: number; // Indentation after the prefix
+  start: number;
+  end: number;
+}
+
+// Tags followed by a description worth translating; every other tag (@see, @example, @since, ...) is kept as is
+const DESCRIBED_TAGS = new Set([
+  'param', 'arg', 'argument', 'property', 'prop', 'property-read', 'property-write', 'var',
+  'return', 'returns', 'throws', 'throw', 'exception', 'yields', 'yield',
+  'deprecated', 'todo', 'note', 'remarks', 'summary', 'description', 'desc'
+]);
+
+// Tags whose first word after the type is a parameter or property name
+const NAMED_TAGS = new Set(['param', 'arg', 'argument', 'property', 'prop', 'property-read', 'property-write']);
+
+// Tags that may start with a type without braces (PHPDoc, JavaDoc)
+const TYPED_TAGS = new Set(['return', 'returns', 'throws', 'throw', 'exception', 'yields', 'yield', 'var']);
+
+const SCALAR_TYPES = new Set([
+  'string', 'int', 'integer', 'float', 'double', 'bool', 'boolean', 'array', 'object', 'mixed',
+  'void', 'callable', 'iterable', 'resource', 'self', 'static', 'number', 'any', 'unknown', 'never', 'undefined'
+]);
+
+// Python docstring sections (Google "Args:" and NumPy "Parameters\n----------")
+const PYTHON_ENTRY_SECTIONS = new Set([
+  'args', 'arguments', 'parameters', 'params', 'keyword args', 'keyword arguments', 'other parameters',
+  'attributes', 'raises', 'raise', 'except', 'exceptions', 'warns'
+]);
+const PYTHON_RETURN_SECTIONS = new Set(['returns', 'return', 'yields', 'yield', 'receives']);
+const PYTHON_SKIPPED_SECTIONS = new Set(['example', 'examples', 'see also', 'references', 'methods']);
+const PYTHON_TEXT_SECTIONS = new Set(['note', 'notes', 'warning', 'warnings', 'todo']);
+
+/**
+ * Find the documentation comments among a document's comments
+ */
+export function parseDocblocks(text: string, comments: CommentToken[], languageId: string): Docblock[] {
+  const docblocks: Docblock[] = [];
+
+  for (let i = 0; i < comments.length; i++) {
+    const token = comments[i];
+
+    if (token.kind === 'block' && token.marker === '/*' && text[token.contentStart] === '*' &&
+        token.contentEnd > token.contentStart + 1) {
+      const lines = toLines(text, token.contentStart, token.contentEnd, /^\s*\*(?!\/)/);
+      docblocks.push(createDocblock([token], parseTaggedDoc(lines, languageId)));
+    } else if (token.kind === 'docstring') {
+      const lines = dedent(toLines(text, token.contentStart, token.contentEnd));
+      docblocks.push(createDocblock([token], parsePythonDoc(lines)));
+    } else if (isLineDoc(text, token)) {
+      // Group adjacent /// (or //!) lines
+      const group = [token];
+      while (i + 1 < comments.length && isLineDoc(text, comments[i + 1]) &&
+             text[comments[i + 1].contentStart] === text[token.contentStart] &&
+             isNextLine(text, group[group.length - 1], comments[i + 1])) {
+        group.push(comments[++i]);
+      }
+      const lines = group.flatMap(t => toLines(text, t.contentStart + 1, t.contentEnd));
+      docblocks.push(createDocblock(group, parseMarkdownDoc(dedent(lines, 0))));
+    }
+  }
+
+  return docblocks;
+}
+
+function createDocblock(tokens: CommentToken[], descriptions: DocDescription[]): Docblock {
+  return {
+    start: tokens[0].start,
+    end: tokens[tokens.length - 1].end,
+    tokens,
+    descriptions
+  };
+}
+
+/**
+ * /// or //! but not //// (often used as a separator)
+ */
+function isLineDoc(text: string, token: CommentToken): boolean {
+  return token.kind === 'line' && token.marker === '//' &&
+    /^[\/!](?!\/)/.test(text.slice(token.contentStart, token.contentStart + 2));
+}
+
+function isNextLine(text: string, previous: CommentToken, next: CommentToken): boolean {
+  const between = text.slice(previous.end, next.start);
+  return /^\r?\n[ \t]*$/.test(between);
+}
+
+/**
+ * Split comment content into lines, removing a per-line prefix (the * of JSDoc)
+ */
+function toLines(text: string, from: number, to: number, prefix?: RegExp): DocLine[] {
+  const lines: DocLine[] = [];
+  let offset = from;
+
+  for (const raw of text.slice(from, to).split('\n')) {
+    const line = raw.replace(/\r$/, '');
+    const prefixLength = prefix?.exec(line)?.[0].length ?? 0;
+    const body = line.slice(prefixLength);
+    const indent = body.length - body.trimStart().length;
+    const trimmed = body.trim();
+    const start = offset + prefixLength + indent;
+    lines.push({ text: trimmed, indent, start, end: start + trimmed.length });
+    offset += raw.length + 1;
+  }
+
+  return lines;
+}
+
+/**
+ * Make indentation relative to the least indented line (the first docstring line sits after the quotes)
+ */
+function dedent(lines: DocLine[], firstLine: number = 1): DocLine[] {
+  const indents = lines.slice(firstLine).filter(l => l.text).map(l => l.indent);
+  const min = indents.length > 0 ? Math.min(...indents) : 0;
+  return lines.map((line, i) => i < firstLine ? { ...line, indent: 0 } : { ...line, indent: Math.max(0, line.indent - min) });
+}
+
+/**
+ * A line starting at a column of another line (the description after a tag or parameter name)
+ */
+function subLine(line: DocLine, column: number): DocLine {
+  const skipped = line.text.slice(column);
+  const text = skipped.trimStart();
+  const start = line.start + column + (skipped.length - text.length);
+  return { text, indent: line.indent, start, end: start + text.length };
+}
+
+/**
+ * Collects consecutive lines into descriptions
+ */
+class DescriptionCollector {
+  public readonly descriptions: DocDescription[] = [];
+  private lines: DocLine[] = [];
+
+  public add(line: DocLine): void {
+    if (line.text) {
+      this.lines.push(line);
+    }
+  }
+
+  public get isEmpty(): boolean {
+    return this.lines.length === 0;
+  }
+
+  public flush(): void {
+    if (this.lines.length === 0) {
+      return;
+    }
+    this.descriptions.push({
+      text: joinLines(this.lines.map(l => l.text)),
+      start: this.lines[0].start,
+      end: this.lines[this.lines.length - 1].end,
+      lines: this.lines.map(l => ({ start: l.start, end: l.end }))
+    });
+    this.lines = [];
+  }
+}
+
+/**
+ * JSDoc / PHPDoc / JavaDoc: free description followed by @tags
+ */
+function parseTaggedDoc(lines: DocLine[], languageId: string): DocDescription[] {
+  const collector = new DescriptionCollector();
+  let inFence = false;
+  let inUndescribedTag = false; // @example, @see, ... - skip until the next tag
+
+  for (const line of lines) {
+    if (/^(```|~~~)/.test(line.text)) {
+      collector.flush();
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) {
+      continue;
+    }
+    if (!line.text) {
+      collector.flush();
+      continue;
+    }
+
+    if (/^@[a-zA-Z]/.test(line.text)) {
+      collector.flush();
+      const column = findTagDescription(line.text, languageId);
+      inUndescribedTag = column === undefined;
+      if (column !== undefined) {
+        collector.add(subLine(line, column));
+      }
+      continue;
+    }
+
+    if (!inUndescribedTag) {
+      collector.add(line);
+    }
+  }
+
+  collector.flush();
+  return collector.descriptions;
+}
+
+/**
+ * Column where the description of a tag line starts, or undefined for tags without one
+ * Handles "@param {Type} name - text", "@param Type $name text", "@param name text",
+ * "@return Type text", "@throws Exception text".
+ */
+function findTagDescription(line: string, languageId: string): number | undefined {
+  const tagMatch = /^@([\w-]+)/.exec(line)!;
+  const tag = tagMatch[1].toLowerCase();
+  // Annotations like @ORM\Column(...) are code
+  if (!DESCRIBED_TAGS.has(tag) || /^[\\(]/.test(line[tagMatch[0].length] ?? '')) {
+    return undefined;
+  }
+
+  let pos = tagMatch[0].length;
+  const skipSpaces = () => {
+    while (pos < line.length && /\s/.test(line[pos])) {
+      pos++;
+    }
+  };
+  const words = () => line.slice(pos).split(/\s+/);
+  const skipWord = () => {
+    pos += words()[0].length;
+    skipSpaces();
+  };
+
+  skipSpaces();
+
+  // {Type}
+  let hasType = false;
+  if (line[pos] === '{') {
+    pos = skipBalanced(line, pos, '{', '}');
+    hasType = true;
+    skipSpaces();
+  }
+
+  if (NAMED_TAGS.has(tag)) {
+    const [first, second] = words();
+    // PHPDoc: type before $name
+    if (!hasType && !first.startsWith('$') && second?.startsWith('$')) {
+      skipWord();
+    }
+    if (line[pos] === '[') {
+      pos = skipBalanced(line, pos, '[', ']'); // [name=default]
+      skipSpaces();
+    } else {
+      skipWord();
+    }
+  } else if (TYPED_TAGS.has(tag) && !hasType) {
+    const first = words()[0];
+    if (tag === 'throws' || tag === 'throw' || tag === 'exception' || isTypeLike(first, languageId)) {
+      skipWord();
+    }
+    if (tag === 'var' && words()[0].startsWith('$')) {
+      skipWord();
+    }
+  }
+
+  // Optional separator: "@param id - The id"
+  if (line[pos] === '-' && /\s/.test(line[pos + 1] ?? ' ')) {
+    pos++;
+    skipSpaces();
+  }
+
+  return pos;
+}
+
+function isTypeLike(word: string | undefined, languageId: string): boolean {
+  if (!word) {
+    return false;
+  }
+  return /^[\\?]|[|<>\[\]\\]/.test(word) ||
+    SCALAR_TYPES.has(word.toLowerCase()) ||
+    (languageId === 'php' && /^[A-Z]\w*$/.test(word));
+}
+
+function skipBalanced(line: string, pos: number, open: string, close: string): number {
+  let depth = 0;
+  for (let i = pos; i < line.length; i++) {
+    if (line[i] === open) {
+      depth++;
+    } else if (line[i] === close && --depth === 0) {
+      return i + 1;
+    }
+  }
+  return line.length;
+}
+
+/**
+ * Python docstrings: summary and paragraphs, Google/NumPy sections and reST fields
+ */
+function parsePythonDoc(lines: DocLine[]): DocDescription[] {
+  const collector = new DescriptionCollector();
+  let section: 'text' | 'entries' | 'returns' | 'skip' = 'text';
+  let numpySection = false; // NumPy entries sit at the header's indentation, descriptions below
+  let sectionIndent = 0;
+  let entryIndent = -1;
+  let fieldIndent = -1; // Continuation lines of a reST field
+  let skipField = false;
+  let inDoctest = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (!line.text) {
+      collector.flush();
+      inDoctest = false;
+      continue;
+    }
+    if (line.text.startsWith('>>>') || inDoctest) {
+      collector.flush();
+      inDoctest = true;
+      continue;
+    }
+
+    // Section headers
+    const googleHeader = /^([A-Za-z][A-Za-z ]*):$/.exec(line.text);
+    const numpyHeader = /^[A-Za-z][A-Za-z ]*$/.test(line.text) && /^-{3,}$/.test(lines[i + 1]?.text ?? '');
+    const headerName = (googleHeader ? googleHeader[1] : numpyHeader ? line.text : '').toLowerCase();
+    if (headerName && isPythonSection(headerName)) {
+      collector.flush();
+      section = PYTHON_ENTRY_SECTIONS.has(headerName) ? 'entries'
+        : PYTHON_RETURN_SECTIONS.has(headerName) ? 'returns'
+        : PYTHON_SKIPPED_SECTIONS.has(headerName) ? 'skip'
+        : 'text';
+      numpySection = numpyHeader;
+      sectionIndent = line.indent;
+      entryIndent = -1;
+      fieldIndent = -1;
+      if (numpyHeader) {
+        i++; // Underline
+      }
+      continue;
+    }
+
+    // reST fields: ":param name: text", ":returns: text", ":rtype: str"
+    const field = /^:(\w+)([^:]*):\s*/.exec(line.text);
+    if (field) {
+      collector.flush();
+      skipField = ['type', 'rtype', 'vartype', 'meta'].includes(field[1]);
+      fieldIndent = line.indent;
+      if (!skipField) {
+        collector.add(subLine(line, field[0].length));
+      }
+      continue;
+    }
+    if (fieldIndent !== -1) {
+      if (line.indent > fieldIndent) {
+        if (!skipField) {
+          collector.add(line);
+        }
+        continue;
+      }
+      collector.flush();
+      fieldIndent = -1;
+    }
+
+    // Google sections end when the text returns to the header's indentation
+    if (section !== 'text' && !numpySection && line.indent <= sectionIndent) {
+      collector.flush();
+      section = 'text';
+    }
+
+    if (section === 'skip') {
+      continue;
+    }
+
+    if (section === 'entries' || section === 'returns') {
+      if (numpySection) {
+        // "name : type" / "ValueError" lines at header level, indented description below
+        if (line.indent <= sectionIndent) {
+          collector.flush();
+        } else {
+          collector.add(line);
+        }
+        continue;
+      }
+
+      if (entryIndent === -1) {
+        entryIndent = line.indent;
+      }
+      if (line.indent <= entryIndent) {
+        collector.flush();
+        // "name (type): text", "ValueError: text", "str: text"
+        const entry = section === 'entries'
+          ? /^\*{0,2}[\w.]+\s*(\([^)]*\))?\s*:\s*/.exec(line.text)
+          : /^[\w.\[\], |]+:\s+/.exec(line.text);
+        collector.add(entry ? subLine(line, entry[0].length) : line);
+      } else {
+        collector.add(line);
+      }
+      continue;
+    }
+
+    collector.add(line);
+  }
+
+  collector.flush();
+  return collector.descriptions;
+}
+
+function isPythonSection(name: string): boolean {
+  return PYTHON_ENTRY_SECTIONS.has(name) || PYTHON_RETURN_SECTIONS.has(name) ||
+    PYTHON_SKIPPED_SECTIONS.has(name) || PYTHON_TEXT_SECTIONS.has(name);
+}
+
+/**
+ * Rust /// docs (Markdown): paragraphs and list items; headings and code blocks are kept as is
+ */
+function parseMarkdownDoc(lines: DocLine[]): DocDescription[] {
+  const collector = new DescriptionCollector();
+  let inFence = false;
+
+  for (const line of lines) {
+    if (/^(```|~~~)/.test(line.text)) {
+      collector.flush();
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence || line.indent >= 4 && collector.isEmpty) {
+      continue; // Code block
+    }
+    if (!line.text || /^#{1,6}\s/.test(line.text) || /^(<\/?\w+[^>]*>)+$/.test(line.text)) {
+      collector.flush(); // Blank line, heading or XML doc tag line
+      continue;
+    }
+
+    const item = /^([*+-]|\d+\.)\s+(`[^`]+`\s*[-:–]\s*)?/.exec(line.text);
+    if (item) {
+      collector.flush();
+      collector.add(subLine(line, item[0].length));
+      continue;
+    }
+
+    collector.add(line);
+  }
+
+  collector.flush();
+  return collector.descriptions;
+}
@@ -3,10 +3,16 @@ import { TranslationHoverProvider } from './hoverProvider';
 import { registerCommands } from './commands';
 import { LMStudioService } from './lmStudioService';
 import { GoogleTranslateService } from './googleTranslateService';
+import { OpenAICompatibleService } from './openAICompatibleService';
 import { TranslationServiceManager } from './translationService';
+import { TranslationCache } from './translationCache';
+import { TranslationMemory } from './translationMemory';
+import { Glossary } from './glossary';
+import { FolderConfig } from './folderConfig';
 import { StatusBarManager, showStatusMenu } from './statusBar';
 import { InlineDecorationProvider } from './inlineDecoration';
-import { getConfig } from './config';
+import { getConfig, getTargetLanguages } from './config';
+import { setUserSyntaxSource } from './commentSyntax';
 
 import { TranslationViewProvider } from './translationViewProvider';
 
@@ -16,18 +22,40 @@ import { TranslationViewProvider } from './translationViewProvider';
 export function activate(context: vscode.ExtensionContext) {
   console.log('LM Translator extension is now active');
 
+  // Comment delimiters added or overridden with lmTranslator.commentSyntax
+  setUserSyntaxSource(() => getConfig().commentSyntax);
+
+  // Shared cache used by every provider
+  TranslationCache.getInstance().initialize(context);
+
+  // Approved translations from .lmtranslator/memory.json, checked before any provider
+  const memory = TranslationMemory.getInstance();
+  memory.initialize(context);
+
+  // Per-folder and per-glob overrides from .lmtranslator.json
+  const folderConfig = FolderConfig.getInstance();
+  folderConfig.initialize(context);
+
+  // Glossary terms from settings and .lmtranslator/glossary.json
+  const glossary = Glossary.getInstance();
+  glossary.initialize(context);
+
   // Initialize Services
   const manager = TranslationServiceManager.getInstance();
 
   // 1. LM Studio
   const lmService = LMStudioService.getInstance();
-  lmService.initialize(context); // Legacy initialization for persistence
   manager.registerService('LM Studio', lmService);
 
   // 2. Google Translate
   const googleService = GoogleTranslateService.getInstance();
   manager.registerService('Google Translate', googleService);
 
+  // 3. OpenAI-compatible servers (Ollama, llama.cpp, vLLM, ...)
+  const openAIService = OpenAICompatibleService.getInstance();
+  openAIService.initialize(context);
+  manager.registerService('OpenAI Compatible', openAIService);
+
   // Initialize status bar (must be done after services are registered)
   const statusBar = StatusBarManager.getInstance();
   context.subscriptions.push(statusBar.getStatusBarItem());
@@ -66,16 +94,17 @@ export function activate(context: vscode.ExtensionContext) {
   context.subscriptions.push(toggleDecorationsCmd);
 
   // Register cycle decoration mode command
+  // The mode is written where the active editor's value comes from, so other workspaces keep theirs
   const cycleDecorationModeCmd = vscode.commands.registerCommand('lmTranslator.cycleDecorationMode', async () => {
-    const config = vscode.workspace.getConfiguration('lmTranslator');
-    const currentMode = config.get<string>('decorationMode') ?? 'off';
+    const document = vscode.window.activeTextEditor?.document;
+    const currentMode = getConfig(document).decorationMode;
 
     // Cycle: off -> inline -> highlighted -> off
     const modes = ['off', 'inline', 'highlighted'];
     const currentIndex = modes.indexOf(currentMode);
     const nextMode = modes[(currentIndex + 1) % modes.length];
 
-    await config.update('decorationMode', nextMode, vscode.ConfigurationTarget.Global);
+    const source = await folderConfig.update('decorationMode', nextMode, document);
 
     const modeLabels: { [key: string]: string } = {
       'off': 'Off',
@@ -83,7 +112,7 @@ export function activate(context: vscode.ExtensionContext) {
       'highlighted': 'Highlighted (prominent)'
     };
 
-    vscode.window.showInformationMessage(`LM Translator: Decoration mode → ${modeLabels[nextMode]}`);
+    vscode.window.showInformationMessage(`LM Translator: Decoration mode → ${modeLabels[nextMode]} (${source.label})`);
 
     // Check connection status when changing mode
     await statusBar.checkConnection();
@@ -99,26 +128,29 @@ export function activate(context: vscode.ExtensionContext) {
 
   // Register show status command
   const showStatusCmd = vscode.commands.registerCommand('lmTranslator.showStatus', async () => {
-    const service = TranslationServiceManager.getInstance().getService();
-    const isConnected = await service.isAvailable();
-    const config = getConfig();
+    const manager = TranslationServiceManager.getInstance();
+    const isConnected = await manager.isAvailable();
+    const fallback = manager.getActiveFallback();
+    const document = vscode.window.activeTextEditor?.document;
+    const config = getConfig(document);
 
     vscode.window.showInformationMessage(
       `LM Translator Status:\n` +
-      `Provider: ${config.provider}\n` +
+      `Provider: ${config.provider}${fallback ? ` (fallback: ${fallback})` : ''}\n` +
+      `Profile: ${config.activeProfile || 'Default'}\n` +
       `Connection: ${isConnected ? 'Connected' : 'Disconnected'}\n` +
       `Decoration: ${config.decorationMode}\n` +
-      `Target: ${config.targetLanguage}`
+      `Target: ${getTargetLanguages(document).join(', ')}`
     );
   });
   context.subscriptions.push(showStatusCmd);
 
   // Register clear cache command
   const clearCacheCmd = vscode.commands.registerCommand('lmTranslator.clearCache', () => {
-    TranslationServiceManager.getInstance().getService().clearCache();
+    TranslationCache.getInstance().clear();
 
     // If decoration mode is enabled, clear decorations
-    if (getConfig().decorationMode !== 'off') {
+    if (decorationProvider.isDecorationEnabled()) {
       decorationProvider.clearAllDecorations();
     }
 
@@ -137,10 +169,27 @@ export function activate(context: vscode.ExtensionContext) {
     if (e.affectsConfiguration('lmTranslator')) {
       statusBar.updateStatus();
 
-      // Update decorations if decoration mode changed
-      if (e.affectsConfiguration('lmTranslator.decorationMode')) {
-        const config = getConfig();
-        if (config.decorationMode !== 'off' && decorationProvider.isDecorationEnabled()) {
+      // Provider may have changed - re-check connection against the new endpoint
+      if (e.affectsConfiguration('lmTranslator.activeProfile') ||
+          e.affectsConfiguration('lmTranslator.profiles') ||
+          e.affectsConfiguration('lmTranslator.provider')) {
+        statusBar.checkConnection();
+      }
+
+      // Update decorations if decoration mode or what gets translated changed
+      if (e.affectsConfiguration('lmTranslator.decorationMode') ||
+          e.affectsConfiguration('lmTranslator.paragraphDisplay') ||
+          e.affectsConfiguration('lmTranslator.bilingualPrefix') ||
+          e.affectsConfiguration('lmTranslator.commentSyntax') ||
+          e.affectsConfiguration('lmTranslator.stringLiterals') ||
+          e.affectsConfiguration('lmTranslator.skipSameLanguage') ||
+          e.affectsConfiguration('lmTranslator.routes') ||
+          e.affectsConfiguration('lmTranslator.targetLanguage') ||
+          e.affectsConfiguration('lmTranslator.targetLanguages') ||
+          e.affectsConfiguration('lmTranslator.promptTemplate') ||
+          e.affectsConfiguration('lmTranslator.glossary') ||
+          e.affectsConfiguration('lmTranslator.doNotTranslate')) {
+        if (decorationProvider.isDecorationEnabled()) {
           decorationProvider.updateDecorations();
         } else {
           decorationProvider.clearDecorations();
@@ -149,19 +198,31 @@ export function activate(context: vscode.ExtensionContext) {
     }
   });
 
-  // Listen for active editor changes to update decorations automatically
-  vscode.window.onDidChangeActiveTextEditor(() => {
-    const config = getConfig();
-    // Auto-run decorations when switching files if mode is enabled
-    if (config.decorationMode !== 'off') {
+  // Memory or glossary changed (approval, git pull) - re-render with the new translations
+  const refreshDecorations = () => {
+    if (decorationProvider.isDecorationEnabled()) {
       decorationProvider.updateDecorations();
     }
+  };
+  context.subscriptions.push(memory.onDidChange(refreshDecorations), glossary.onDidChange(refreshDecorations));
+
+  // .lmtranslator.json changed - its decoration mode may turn decorations on or off
+  context.subscriptions.push(folderConfig.onDidChange(() => {
+    statusBar.updateStatus();
+    decorationProvider.updateDecorations();
+  }));
+
+  // Listen for active editor changes to update decorations automatically
+  vscode.window.onDidChangeActiveTextEditor(() => {
+    // The new file may use another folder's mode and target language
+    statusBar.updateStatus();
+    // Auto-run decorations when switching files (clears them where the mode is off)
+    decorationProvider.updateDecorations();
   });
 
   // Listen for visible range changes (scrolling)
   vscode.window.onDidChangeTextEditorVisibleRanges((e) => {
-    const config = getConfig();
-    if (config.decorationMode !== 'off' && e.textEditor === vscode.window.activeTextEditor) {
+    if (decorationProvider.isDecorationEnabled() && e.textEditor === vscode.window.activeTextEditor) {
       decorationProvider.updateDecorations();
     }
   });
@@ -169,8 +230,7 @@ export function activate(context: vscode.ExtensionContext) {
   // Listen for document changes (new comments, edits)
   let documentChangeTimeout: NodeJS.Timeout | undefined;
   vscode.workspace.onDidChangeTextDocument((e) => {
-    const config = getConfig();
-    if (config.decorationMode !== 'off' && e.document === vscode.window.activeTextEditor?.document) {
+    if (decorationProvider.isDecorationEnabled() && e.document === vscode.window.activeTextEditor?.document) {
       // Debounce to avoid too frequent updates while typing
       if (documentChangeTimeout) {
         clearTimeout(documentChangeTimeout);
@@ -185,10 +245,13 @@ export function activate(context: vscode.ExtensionContext) {
 /**
  * Extension deactivation
  */
-export function deactivate() {
+export function deactivate(): Promise<void> {
   // Stop periodic status check
   StatusBarManager.getInstance().stopPeriodicCheck();
 
   InlineDecorationProvider.getInstance().dispose();
   console.log('LM Translator extension is now deactivated');
+
+  // Make sure pending cache writes reach the disk
+  return TranslationCache.getInstance().dispose();
 }
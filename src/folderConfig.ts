@@ -0,0 +1,336 @@
+import * as vscode from 'vscode';
+import { GlossaryTerm } from './types';
+
+/**
+ * Per-folder configuration
+ * A .lmtranslator.json at the root of a workspace folder overrides settings for the files of
+ * that folder, and its "overrides" entries for files matching a glob (relative to the folder):
+ *
+ *   { "targetLanguage": "English", "overrides": [{ "files": "legacy/**", "targetLanguage": "Vietnamese" }] }
+ *
+ * Later wins: defaults, user, workspace and folder settings, the file's top-level values,
+ * then matching overrides in order.
+ */
+
+/**
+ * Settings that can differ per folder and per file
+ */
+export interface FolderSettings {
+  targetLanguage?: string;
+  targetLanguages?: string[];
+  promptTemplate?: string;
+  glossary?: GlossaryTerm[];
+  doNotTranslate?: string[];
+  decorationMode?: 'off' | 'inline' | 'highlighted';
+}
+
+export type FolderSettingKey = keyof FolderSettings;
+
+/**
+ * The parts of a file that settings and routing rules look at: an open document, or a file
+ * read without opening it (workspace translation)
+ */
+export type DocumentInfo = Pick<vscode.TextDocument, 'uri' | 'languageId'>;
+
+/**
+ * Where the active value of a setting comes from
+ */
+export interface SettingSource {
+  label: string; // e.g. "Workspace", "Folder api", ".lmtranslator.json (legacy/**)"
+  target?: vscode.ConfigurationTarget; // Settings scope; undefined for defaults and .lmtranslator.json
+  file?: vscode.Uri;
+  override?: number; // Index in the file's "overrides"
+}
+
+/**
+ * Valid values of a .lmtranslator.json: its top-level settings and "overrides" entries
+ */
+interface FolderConfigFile extends FolderSettings {
+  overrides: FolderOverride[];
+}
+
+interface FolderOverride extends FolderSettings {
+  files: string;
+  index: number; // Position in the file's "overrides", kept for writing back
+}
+
+/**
+ * Config file name, at the root of each workspace folder
+ */
+export const FOLDER_CONFIG_FILE = '.lmtranslator.json';
+
+/**
+ * Type check for each setting; values that fail it are dropped with a warning
+ * Glossary entries are checked one by one when the glossary is read.
+ */
+const SETTING_VALIDATORS: Record<FolderSettingKey, (value: unknown) => boolean> = {
+  targetLanguage: value => typeof value === 'string' && value.trim().length > 0,
+  targetLanguages: value => isStringArray(value),
+  promptTemplate: value => typeof value === 'string' && value.trim().length > 0,
+  glossary: value => Array.isArray(value),
+  doNotTranslate: value => isStringArray(value),
+  decorationMode: value => value === 'off' || value === 'inline' || value === 'highlighted'
+};
+
+const SETTING_KEYS = Object.keys(SETTING_VALIDATORS) as FolderSettingKey[];
+
+/**
+ * Loads the .lmtranslator.json files of the workspace folders and resolves settings per document
+ */
+export class FolderConfig {
+  private static instance: FolderConfig;
+  private files = new Map<string, FolderConfigFile>(); // Keyed by workspace folder URI
+  private readonly _onDidChange = new vscode.EventEmitter<void>();
+  public readonly onDidChange = this._onDidChange.event;
+
+  private constructor() {}
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): FolderConfig {
+    if (!FolderConfig.instance) {
+      FolderConfig.instance = new FolderConfig();
+    }
+    return FolderConfig.instance;
+  }
+
+  /**
+   * Load the config files and watch them for changes
+   */
+  public initialize(context: vscode.ExtensionContext): void {
+    const watcher = vscode.workspace.createFileSystemWatcher(`**/${FOLDER_CONFIG_FILE}`);
+    watcher.onDidChange(() => this.reload());
+    watcher.onDidCreate(() => this.reload());
+    watcher.onDidDelete(() => this.reload());
+
+    context.subscriptions.push(
+      watcher,
+      vscode.workspace.onDidChangeWorkspaceFolders(() => this.reload())
+    );
+
+    this.reload();
+  }
+
+  /**
+   * Values the config file of the document's folder sets for it
+   */
+  public getSettings(document: DocumentInfo | undefined): FolderSettings {
+    const settings: FolderSettings = {};
+    for (const { values } of this.getLayers(document)) {
+      for (const key of SETTING_KEYS) {
+        copySetting(values, settings, key);
+      }
+    }
+    return settings;
+  }
+
+  /**
+   * Where the active value of a setting comes from for a document
+   */
+  public getSource(key: FolderSettingKey, document: DocumentInfo | undefined): SettingSource {
+    const layers = this.getLayers(document).filter(layer => layer.values[key] !== undefined);
+    if (layers.length > 0) {
+      return layers[layers.length - 1].source;
+    }
+
+    const inspected = vscode.workspace.getConfiguration('lmTranslator', document?.uri).inspect(key);
+    if (inspected?.workspaceFolderValue !== undefined && document) {
+      const folder = vscode.workspace.getWorkspaceFolder(document.uri);
+      return { label: `Folder ${folder?.name ?? ''}`.trim(), target: vscode.ConfigurationTarget.WorkspaceFolder };
+    }
+    if (inspected?.workspaceValue !== undefined) {
+      return { label: 'Workspace', target: vscode.ConfigurationTarget.Workspace };
+    }
+    if (inspected?.globalValue !== undefined) {
+      return { label: 'User', target: vscode.ConfigurationTarget.Global };
+    }
+    return { label: 'Default' };
+  }
+
+  /**
+   * Change a setting for a document where its active value comes from (.lmtranslator.json, folder
+   * or workspace settings), so the change does not leak into other folders or projects.
+   * User settings and defaults are overridden in the workspace settings; user settings are only
+   * written when no folder is open.
+   * @returns Where the value was written
+   */
+  public async update(key: FolderSettingKey, value: unknown, document: DocumentInfo | undefined): Promise<SettingSource> {
+    const source = this.getSource(key, document);
+
+    if (source.file) {
+      await this.writeFile(source.file, key, value, source.override);
+      return source;
+    }
+
+    const config = vscode.workspace.getConfiguration('lmTranslator', document?.uri);
+    if (source.target === vscode.ConfigurationTarget.WorkspaceFolder || source.target === vscode.ConfigurationTarget.Workspace) {
+      await config.update(key, value, source.target);
+      return source;
+    }
+    if (vscode.workspace.workspaceFolders?.length) {
+      await config.update(key, value, vscode.ConfigurationTarget.Workspace);
+      return { label: 'Workspace', target: vscode.ConfigurationTarget.Workspace };
+    }
+    await config.update(key, value, vscode.ConfigurationTarget.Global);
+    return { label: 'User', target: vscode.ConfigurationTarget.Global };
+  }
+
+  /**
+   * Identifies the settings a document's translations are made with: documents with the same key
+   * share target languages, prompt template and glossary (requests from them may be merged)
+   */
+  public getScopeKey(document: DocumentInfo | undefined): string {
+    if (!document) {
+      return '';
+    }
+    const folder = vscode.workspace.getWorkspaceFolder(document.uri);
+    return `${folder?.uri.toString() ?? ''}\0${JSON.stringify(this.getSettings(document))}`;
+  }
+
+  /**
+   * Re-read the config files of all workspace folders
+   */
+  public async reload(): Promise<void> {
+    const files = new Map<string, FolderConfigFile>();
+
+    for (const folder of vscode.workspace.workspaceFolders || []) {
+      const uri = vscode.Uri.joinPath(folder.uri, FOLDER_CONFIG_FILE);
+      const content = await this.readFile(uri);
+      if (content) {
+        files.set(folder.uri.toString(), validateFile(content, uri));
+      }
+    }
+
+    this.files = files;
+    this._onDidChange.fire();
+  }
+
+  /**
+   * Top-level values of the document's config file, then the overrides matching the document
+   */
+  private getLayers(document: DocumentInfo | undefined): { values: FolderSettings; source: SettingSource }[] {
+    const folder = document && vscode.workspace.getWorkspaceFolder(document.uri);
+    const file = folder && this.files.get(folder.uri.toString());
+    if (!folder || !file) {
+      return [];
+    }
+
+    const uri = vscode.Uri.joinPath(folder.uri, FOLDER_CONFIG_FILE);
+    const layers: { values: FolderSettings; source: SettingSource }[] = [{ values: file, source: { label: FOLDER_CONFIG_FILE, file: uri } }];
+    for (const override of file.overrides) {
+      if (matchesGlob(new vscode.RelativePattern(folder, override.files), document)) {
+        layers.push({ values: override, source: { label: `${FOLDER_CONFIG_FILE} (${override.files})`, file: uri, override: override.index } });
+      }
+    }
+    return layers;
+  }
+
+  /**
+   * Parsed content of a config file, as written (unknown and invalid keys included)
+   */
+  private async readFile(uri: vscode.Uri): Promise<Record<string, unknown> | undefined> {
+    let content: string;
+    try {
+      content = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+    } catch (e) {
+      return undefined; // No config file in this folder
+    }
+
+    try {
+      const parsed = JSON.parse(content);
+      return isRecord(parsed) ? parsed : undefined;
+    } catch (e) {
+      console.error(`LM Translator: Invalid config file ${uri.fsPath}`, e);
+      return undefined;
+    }
+  }
+
+  /**
+   * Set a value in a config file, at the top level or in one of its overrides
+   */
+  private async writeFile(uri: vscode.Uri, key: FolderSettingKey, value: unknown, override?: number): Promise<void> {
+    const file = (await this.readFile(uri)) || {};
+    const overrides = file.overrides;
+    const entry: unknown = override !== undefined && Array.isArray(overrides) ? overrides[override] : undefined;
+    const target = isRecord(entry) ? entry : file;
+    target[key] = value;
+
+    await vscode.workspace.fs.writeFile(uri, Buffer.from(JSON.stringify(file, null, 2) + '\n', 'utf8'));
+    await this.reload();
+  }
+}
+
+/**
+ * Whether a file matches a glob
+ */
+export function matchesGlob(pattern: vscode.GlobPattern, document: DocumentInfo): boolean {
+  // languages.match only reads the URI and language ID of the document
+  return vscode.languages.match({ pattern }, document as vscode.TextDocument) > 0;
+}
+
+/**
+ * Keep the valid settings and "overrides" entries of a config file
+ */
+function validateFile(content: Record<string, unknown>, uri: vscode.Uri): FolderConfigFile {
+  const file: FolderConfigFile = { ...validateSettings(content, uri, ''), overrides: [] };
+
+  const overrides: unknown = content.overrides;
+  if (overrides === undefined) {
+    return file;
+  }
+  if (!Array.isArray(overrides)) {
+    console.warn(`LM Translator: Ignoring "overrides" in ${uri.fsPath}, expected an array`);
+    return file;
+  }
+
+  overrides.forEach((entry: unknown, index) => {
+    if (!isRecord(entry) || typeof entry.files !== 'string' || entry.files.trim().length === 0) {
+      console.warn(`LM Translator: Ignoring overrides[${index}] in ${uri.fsPath}, expected an object with a "files" glob`);
+      return;
+    }
+    file.overrides.push({ ...validateSettings(entry, uri, `overrides[${index}].`), files: entry.files, index });
+  });
+  return file;
+}
+
+/**
+ * Settings of a config file (or one of its overrides) with a value of the expected type
+ * @param path Prefix of the keys in warnings, e.g. "overrides[0]."
+ */
+function validateSettings(values: Record<string, unknown>, uri: vscode.Uri, path: string): FolderSettings {
+  const settings: FolderSettings = {};
+  for (const key of SETTING_KEYS) {
+    if (values[key] === undefined) {
+      continue;
+    }
+    if (!copySetting(values, settings, key)) {
+      console.warn(`LM Translator: Ignoring "${path}${key}" in ${uri.fsPath}, ${JSON.stringify(values[key])} is not a valid value`);
+    }
+  }
+  return settings;
+}
+
+/**
+ * Copy a setting when it is set and valid
+ * @returns Whether the value was copied
+ */
+function copySetting<K extends FolderSettingKey>(from: Partial<Record<FolderSettingKey, unknown>>, to: FolderSettings, key: K): boolean {
+  const value = from[key];
+  if (value === undefined || !SETTING_VALIDATORS[key](value)) {
+    return false;
+  }
+  to[key] = value as FolderSettings[K];
+  return true;
+}
+
+/**
+ * Whether a parsed JSON value is an object (not null or an array)
+ */
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
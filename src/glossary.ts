@@ -0,0 +1,231 @@
+import * as vscode from 'vscode';
+import { getConfig } from './config';
+import { DocumentInfo, isRecord } from './folderConfig';
+import { GlossaryTerm, TranslationResult } from './types';
+
+/**
+ * Layout of .lmtranslator/glossary.json
+ */
+interface GlossaryFile {
+  terms: GlossaryTerm[];
+  doNotTranslate: string[];
+}
+
+/**
+ * Glossary rules that apply to one source text
+ */
+export interface GlossaryMatch {
+  terms: GlossaryTerm[];
+  doNotTranslate: string[];
+}
+
+/**
+ * Glossary file path relative to each workspace folder
+ */
+export const GLOSSARY_FILE = '.lmtranslator/glossary.json';
+
+/**
+ * Project glossary
+ * Merges lmTranslator.glossary / lmTranslator.doNotTranslate settings with the glossary file of
+ * the text's workspace folder (which wins for the same term), tells the model about the terms a
+ * text contains, and flags translations that break a rule.
+ */
+export class Glossary {
+  private static instance: Glossary;
+  private files = new Map<string, GlossaryFile>(); // Keyed by workspace folder URI
+  private readonly _onDidChange = new vscode.EventEmitter<void>();
+  public readonly onDidChange = this._onDidChange.event;
+
+  private constructor() {}
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): Glossary {
+    if (!Glossary.instance) {
+      Glossary.instance = new Glossary();
+    }
+    return Glossary.instance;
+  }
+
+  /**
+   * Load glossary files and watch them and the settings for changes
+   */
+  public initialize(context: vscode.ExtensionContext): void {
+    const watcher = vscode.workspace.createFileSystemWatcher(`**/${GLOSSARY_FILE}`);
+    watcher.onDidChange(() => this.reload());
+    watcher.onDidCreate(() => this.reload());
+    watcher.onDidDelete(() => this.reload());
+
+    context.subscriptions.push(
+      watcher,
+      vscode.workspace.onDidChangeWorkspaceFolders(() => this.reload()),
+      vscode.workspace.onDidChangeConfiguration(e => {
+        if (e.affectsConfiguration('lmTranslator.glossary') || e.affectsConfiguration('lmTranslator.doNotTranslate')) {
+          this._onDidChange.fire();
+        }
+      })
+    );
+
+    this.reload();
+  }
+
+  /**
+   * Find the glossary rules that apply to a source text
+   * @param document File the text comes from (its folder may set its own glossary)
+   */
+  public findMatches(text: string, targetLanguage: string, document?: DocumentInfo): GlossaryMatch {
+    const lang = targetLanguage.trim().toLowerCase();
+    const terms = new Map<string, GlossaryTerm>();
+
+    for (const term of this.getTerms(document)) {
+      if (term.targetLanguage && term.targetLanguage.trim().toLowerCase() !== lang) {
+        continue;
+      }
+      if (containsTerm(text, term.term, term.caseSensitive)) {
+        // A language-specific entry beats a generic one for the same term
+        const existing = terms.get(term.term);
+        if (!existing || !existing.targetLanguage) {
+          terms.set(term.term, term);
+        }
+      }
+    }
+
+    return {
+      terms: Array.from(terms.values()),
+      doNotTranslate: this.getDoNotTranslate(document).filter(term => containsTerm(text, term, true))
+    };
+  }
+
+  /**
+   * Extra system message lines for the terms found in the given texts
+   * @returns undefined when no glossary rule applies
+   */
+  public buildInstructions(texts: string[], targetLanguage: string, document?: DocumentInfo): string | undefined {
+    const terms = new Map<string, string>();
+    const keep = new Set<string>();
+
+    for (const text of texts) {
+      const match = this.findMatches(text, targetLanguage, document);
+      match.terms.forEach(term => terms.set(term.term, term.translation));
+      match.doNotTranslate.forEach(term => keep.add(term));
+    }
+
+    const lines: string[] = [];
+    if (terms.size > 0) {
+      lines.push(`Use this glossary, translating each term exactly as given:`);
+      terms.forEach((translation, term) => lines.push(`- "${term}" → "${translation}"`));
+    }
+    if (keep.size > 0) {
+      lines.push(`Keep these terms unchanged: ${Array.from(keep).map(term => `"${term}"`).join(', ')}.`);
+    }
+    return lines.length > 0 ? lines.join('\n') : undefined;
+  }
+
+  /**
+   * Check a translation against the glossary
+   * @returns One warning per broken rule
+   */
+  public check(result: TranslationResult, document?: DocumentInfo): string[] {
+    const match = this.findMatches(result.originalText, result.targetLanguage, document);
+    const warnings: string[] = [];
+
+    for (const term of match.terms) {
+      if (!containsTerm(result.translatedText, term.translation, term.caseSensitive)) {
+        warnings.push(`"${term.term}" should be translated as "${term.translation}"`);
+      }
+    }
+    for (const term of match.doNotTranslate) {
+      if (!containsTerm(result.translatedText, term, true)) {
+        warnings.push(`"${term}" should not be translated`);
+      }
+    }
+
+    return warnings;
+  }
+
+  /**
+   * Term→translation pairs; the folder's glossary file overrides settings for the same term and language
+   */
+  private getTerms(document?: DocumentInfo): GlossaryTerm[] {
+    const terms = new Map<string, GlossaryTerm>();
+    for (const term of [...getConfig(document).glossary, ...this.getFile(document)?.terms ?? []]) {
+      if (isValidTerm(term)) {
+        terms.set(`${term.term}\u0000${term.targetLanguage?.toLowerCase() ?? ''}`, term);
+      }
+    }
+    return Array.from(terms.values());
+  }
+
+  private getDoNotTranslate(document?: DocumentInfo): string[] {
+    return Array.from(new Set(
+      [...getConfig(document).doNotTranslate, ...this.getFile(document)?.doNotTranslate ?? []]
+        .filter(term => typeof term === 'string' && term.trim().length > 0)
+    ));
+  }
+
+  /**
+   * Glossary file of the document's workspace folder
+   * Text without a file (the translation panel) uses the glossary of a single-folder workspace.
+   */
+  private getFile(document?: DocumentInfo): GlossaryFile | undefined {
+    const folders = vscode.workspace.workspaceFolders || [];
+    const folder = document ? vscode.workspace.getWorkspaceFolder(document.uri) : folders.length === 1 ? folders[0] : undefined;
+    return folder && this.files.get(folder.uri.toString());
+  }
+
+  /**
+   * Re-read the glossary files of all workspace folders
+   */
+  public async reload(): Promise<void> {
+    const files = new Map<string, GlossaryFile>();
+
+    for (const folder of vscode.workspace.workspaceFolders || []) {
+      const file = await this.readFile(vscode.Uri.joinPath(folder.uri, GLOSSARY_FILE));
+      if (file) {
+        files.set(folder.uri.toString(), file);
+      }
+    }
+
+    this.files = files;
+    this._onDidChange.fire();
+  }
+
+  private async readFile(uri: vscode.Uri): Promise<GlossaryFile | undefined> {
+    let content: string;
+    try {
+      content = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+    } catch (e) {
+      return undefined; // No glossary in this folder
+    }
+
+    try {
+      const parsed = JSON.parse(content);
+      return {
+        terms: Array.isArray(parsed.terms) ? parsed.terms : [],
+        doNotTranslate: Array.isArray(parsed.doNotTranslate) ? parsed.doNotTranslate : []
+      };
+    } catch (e) {
+      console.error(`LM Translator: Invalid glossary file ${uri.fsPath}`, e);
+      return undefined;
+    }
+  }
+}
+
+function isValidTerm(term: unknown): term is GlossaryTerm {
+  return isRecord(term) &&
+    typeof term.term === 'string' && term.term.trim().length > 0 &&
+    typeof term.translation === 'string' && term.translation.trim().length > 0 &&
+    (term.targetLanguage === undefined || typeof term.targetLanguage === 'string');
+}
+
+/**
+ * Whether text contains a term
+ * Latin-script terms must match whole words; terms in scripts without spaces (CJK) match anywhere.
+ */
+function containsTerm(text: string, term: string, caseSensitive: boolean = false): boolean {
+  const escaped = term.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const wordStart = /^\w/.test(term.trim()) ? '\\b' : '';
+  const wordEnd = /\w$/.test(term.trim()) ? '\\b' : '';
+  return new RegExp(`${wordStart}${escaped}${wordEnd}`, caseSensitive ? 'u' : 'iu').test(text);
+}
@@ -1,13 +1,13 @@
-import { ITranslationService } from './translationService';
+import { ITranslationService, ServiceUnavailableError } from './translationService';
 import { TranslationResult } from './types';
-import { getConfig } from './config';
+import { getConfig, getSourceLanguage } from './config';
+import { TranslationCache, CacheKeyParts } from './translationCache';
 // google-translate-api-x is ESM, so we use dynamic import in methods
 // check isAvailable and translate methods
 
 
 export class GoogleTranslateService implements ITranslationService {
   private static instance: GoogleTranslateService;
-  private translationCache: Map<string, TranslationResult> = new Map();
 
   private constructor() {}
 
@@ -21,47 +21,103 @@ export class GoogleTranslateService implements ITranslationService {
   public async translate(text: string, targetLanguage?: string): Promise<TranslationResult> {
     const config = getConfig();
     const lang = targetLanguage || config.targetLanguage;
-    const cacheKey = `${text}:${lang}`;
 
-    if (this.translationCache.has(cacheKey)) {
-      return this.translationCache.get(cacheKey)!;
+    const cached = this.getCachedResult(text, lang);
+    if (cached) {
+      return cached;
     }
 
     try {
       // The library's translate function
-      // Default auto detect source
-      // @ts-ignore
+      // Source is auto-detected unless lmTranslator.sourceLanguage is set
       const { default: translate } = await import('google-translate-api-x');
-      const res = await translate(text, { to: lang });
+      const res = await translate(text, { from: getSourceLanguage() || 'auto', to: lang });
 
       const result: TranslationResult = {
         originalText: text,
         translatedText: res.text,
         targetLanguage: lang,
         detectedLanguage: res.from?.language?.iso,
-        timestamp: Date.now()
+        timestamp: Date.now(),
+        provider: 'Google Translate'
       };
 
-      this.translationCache.set(cacheKey, result);
+      TranslationCache.getInstance().set(this.getCacheKeyParts(text, lang), result);
       return result;
 
-    } catch (error: any) {
+    } catch (error) {
       console.error('Google Translate Error:', error);
-      throw new Error(`Google Translate failed: ${error.message}`);
+      throw this.toServiceError(error);
     }
   }
 
+  /**
+   * Translate many texts with one call - the library accepts an array of queries
+   * Fresh results are returned as built, not read back from the cache (a small cache may already have evicted them).
+   */
+  public async translateBatch(texts: string[], targetLanguage?: string): Promise<TranslationResult[]> {
+    const config = getConfig();
+    const lang = targetLanguage || config.targetLanguage;
+
+    const results = new Map<string, TranslationResult>();
+    for (const text of texts) {
+      const cached = this.getCachedResult(text, lang);
+      if (cached) {
+        results.set(text, cached);
+      }
+    }
+    const missing = Array.from(new Set(texts.filter(text => !results.has(text))));
+
+    if (missing.length > 0) {
+      try {
+        const { default: translate } = await import('google-translate-api-x');
+        const responses = await translate(missing, { from: getSourceLanguage() || 'auto', to: lang });
+
+        missing.forEach((text, i) => {
+          const result: TranslationResult = {
+            originalText: text,
+            translatedText: responses[i].text,
+            targetLanguage: lang,
+            detectedLanguage: responses[i].from?.language?.iso,
+            timestamp: Date.now(),
+            provider: 'Google Translate'
+          };
+          TranslationCache.getInstance().set(this.getCacheKeyParts(text, lang), result);
+          results.set(text, result);
+        });
+      } catch (error) {
+        console.error('Google Translate Error:', error);
+        throw this.toServiceError(error);
+      }
+    }
+
+    return texts.map(text => results.get(text)!);
+  }
+
   public getCachedResult(text: string, targetLanguage?: string): TranslationResult | undefined {
     const config = getConfig();
     const lang = targetLanguage || config.targetLanguage;
-    const cacheKey = `${text}:${lang}`;
-    return this.translationCache.get(cacheKey);
+    return TranslationCache.getInstance().get(this.getCacheKeyParts(text, lang));
+  }
+
+  /**
+   * Google ignores model and prompt template, so they are left empty in the key
+   * A set source language changes the result (no detection), so it is part of the key.
+   */
+  private getCacheKeyParts(text: string, lang: string): CacheKeyParts {
+    return {
+      provider: 'Google Translate',
+      model: '',
+      promptTemplate: '',
+      sourceLanguage: getSourceLanguage() || 'auto',
+      targetLanguage: lang,
+      text
+    };
   }
 
   public async isAvailable(): Promise<boolean> {
     try {
       // Simple test translation
-      // @ts-ignore
       const { default: translate } = await import('google-translate-api-x');
       await translate('Hello', { to: 'es' });
       return true;
@@ -70,7 +126,34 @@ export class GoogleTranslateService implements ITranslationService {
     }
   }
 
+  /**
+   * Error to throw for a failed request
+   * Network failures and rate limiting mean the service is unavailable, not that the text is bad.
+   */
+  private toServiceError(error: unknown): Error {
+    const message = error instanceof Error ? error.message : String(error);
+    const code = getErrorCode(error);
+    if ((code && ['ECONNREFUSED', 'ECONNRESET', 'ENOTFOUND', 'ETIMEDOUT', 'EAI_AGAIN'].includes(code)) ||
+        /fetch failed|network|timed? ?out|Too Many Requests|429/i.test(message)) {
+      return new ServiceUnavailableError(`Google Translate unreachable: ${message}`);
+    }
+    return new Error(`Google Translate failed: ${message}`);
+  }
+
   public clearCache(): void {
-    this.translationCache.clear();
+    TranslationCache.getInstance().clear('Google Translate');
+  }
+}
+
+/**
+ * System error code of an error or of its cause (fetch wraps network errors)
+ */
+function getErrorCode(error: unknown): string | undefined {
+  if (typeof error !== 'object' || error === null) {
+    return undefined;
+  }
+  if ('code' in error && typeof error.code === 'string') {
+    return error.code;
   }
+  return 'cause' in error ? getErrorCode(error.cause) : undefined;
 }
@@ -1,6 +1,10 @@
 import * as vscode from 'vscode';
 import { TranslationServiceManager } from './translationService';
-import { getConfig, buildPrompt } from './config';
+import { getConfig, buildPrompt, getTargetLanguages } from './config';
+import { findCommentAt, findStringAt, getCommentContent } from './commentExtractor';
+import { isStringTranslationEnabled, getStringText, isTranslatableString } from './stringLiterals';
+import { findCommentLocations } from './translatableText';
+import { getLanguageName } from './languageDetection';
 
 /**
  * Hover Provider for translation
@@ -20,7 +24,7 @@ export class TranslationHoverProvider implements vscode.HoverProvider {
     position: vscode.Position,
     token: vscode.CancellationToken
   ): Promise<vscode.Hover | null> {
-    const config = getConfig();
+    const config = getConfig(document);
 
     if (!config.enableHover) {
       return null;
@@ -42,34 +46,33 @@ export class TranslationHoverProvider implements vscode.HoverProvider {
 
     // Priority 2: If no selection or hover outside selection, check for comment
     if (!textToTranslate) {
-      const lineText = document.lineAt(position.line).text;
-      const commentPatterns = [
-        /\/\/.*$/, // Single line comment
-        /\/\*[\s\S]*?\*\//, // Multi-line comment
-        /#.*$/, // Python/Shell comment
-        /--.*$/, // SQL comment
-        /<!--[\s\S]*?-->/ // HTML comment
-      ];
-
-      for (const pattern of commentPatterns) {
-        const match = lineText.match(pattern);
-        if (match) {
-          const matchStart = lineText.indexOf(match[0]);
-          const matchEnd = matchStart + match[0].length;
-          if (position.character >= matchStart && position.character <= matchEnd) {
-            // Extract just the comment content without markers
-            textToTranslate = match[0]
-              .replace(/^\/\/\s*/, '')
-              .replace(/^\/\*\s*/, '')
-              .replace(/\s*\*\/$/, '')
-              .replace(/^#\s*/, '')
-              .replace(/^--\s*/, '')
-              .replace(/^<!--\s*/, '')
-              .replace(/\s*-->$/, '')
-              .trim();
-            break;
-          }
+      const text = document.getText();
+      const offset = document.offsetAt(position);
+      const comment = findCommentAt(text, offset, document.languageId);
+
+      if (comment) {
+        // Translate the whole paragraph (or docblock description) under the cursor, as decorations do;
+        // tag-only lines of a docblock have none
+        const paragraph = findCommentLocations(text, document.languageId, getTargetLanguages(document))
+          .map(location => location.paragraph)
+          .find(p => position.line >= document.positionAt(p.start).line && position.line <= document.positionAt(p.end).line);
+
+        if (!paragraph) {
+          return null;
         }
+        textToTranslate = paragraph.text;
+        hoverRange = new vscode.Range(document.positionAt(paragraph.start), document.positionAt(paragraph.end));
+      }
+    }
+
+    // Priority 3: String literal with natural-language text (lmTranslator.stringLiterals.enabled)
+    if (!textToTranslate && isStringTranslationEnabled(document.languageId)) {
+      const text = document.getText();
+      const literal = findStringAt(text, document.offsetAt(position), document.languageId);
+      const literalText = literal ? getStringText(getCommentContent(text, literal)) : '';
+      if (literal && isTranslatableString(literalText)) {
+        textToTranslate = literalText;
+        hoverRange = new vscode.Range(document.positionAt(literal.start), document.positionAt(literal.end));
       }
     }
 
@@ -83,20 +86,39 @@ export class TranslationHoverProvider implements vscode.HoverProvider {
     }
 
     try {
-      const result = await this.service.translate(textToTranslate);
+      // Languages the text is already in (lmTranslator.skipSameLanguage) are left out
+      const results = (await this.service.translateAll(textToTranslate, { priority: 'interactive', token, document }))
+        .filter(result => !result.sameLanguage);
 
-      if (token.isCancellationRequested) {
+      if (token.isCancellationRequested || results.length === 0) {
         return null;
       }
 
       const markdown = new vscode.MarkdownString();
       markdown.appendMarkdown(`**🌐 LM Translator**\n\n`);
-      markdown.appendMarkdown(`**Original:** ${textToTranslate}\n\n`);
-      markdown.appendMarkdown(`**${result.targetLanguage}:** ${result.translatedText}`);
+      const detected = results.find(result => result.detectedLanguage)?.detectedLanguage;
+      const source = detected ? ` (${getLanguageName(detected)})` : '';
+      markdown.appendMarkdown(`**Original${source}:** ${textToTranslate}`);
+
+      for (const result of results) {
+        markdown.appendMarkdown(`\n\n**${result.targetLanguage}:** ${result.translatedText}`);
+        if (result.fromMemory) {
+          markdown.appendMarkdown(`\n\n✓ *Approved translation (translation memory)*`);
+        }
+        if (result.route) {
+          markdown.appendMarkdown(`\n\n↪ *Route "${result.route}": ${result.provider}${result.model ? ` · ${result.model}` : ''}*`);
+        }
+        for (const warning of result.glossaryWarnings || []) {
+          markdown.appendMarkdown(`\n\n⚠️ *Glossary: ${warning}*`);
+        }
+      }
       markdown.isTrusted = true;
 
       return new vscode.Hover(markdown, hoverRange);
     } catch (error) {
+      if (error instanceof vscode.CancellationError) {
+        return null;
+      }
       const errorMessage = error instanceof Error ? error.message : 'Translation failed';
       const markdown = new vscode.MarkdownString();
       markdown.appendMarkdown(`**🌐 LM Translator**\n\n`);
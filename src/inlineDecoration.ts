@@ -1,12 +1,26 @@
 import * as vscode from 'vscode';
 import { TranslationServiceManager } from './translationService';
-import { getConfig } from './config';
+import { getConfig, getTargetLanguages } from './config';
+import { TranslationResult } from './types';
+import { TextSpan, spreadTranslation } from './commentParagraphs';
+import { findTranslatableTexts } from './translatableText';
+import { isInTargetLanguage } from './languageDetection';
+import { FolderConfig } from './folderConfig';
 
 /**
  * Decoration types for inline translation display
  */
 type DecorationMode = 'off' | 'inline' | 'highlighted';
 
+/**
+ * A text to translate and the lines its translation is shown on
+ */
+interface DecorationTarget {
+  range: vscode.Range; // Whole paragraph, used to translate visible comments first
+  text: string;
+  lines: vscode.Range[]; // Text of each original line; translations are shown after it
+}
+
 /**
  * Inline Translation Decoration Provider
  * Shows translation as inline decorations without modifying code
@@ -16,6 +30,7 @@ export class InlineDecorationProvider {
   private service = TranslationServiceManager.getInstance();
   private currentDocumentUri: string = '';
   private activeRenderId: number = 0; // Token to cancel old tasks
+  private renderCancellation: vscode.CancellationTokenSource | undefined; // Cancels queued requests of old tasks
 
   // Decoration type for inline (subtle italic after text)
   private inlineDecorationType: vscode.TextEditorDecorationType;
@@ -74,10 +89,10 @@ export class InlineDecorationProvider {
   }
 
   /**
-   * Check if decoration mode is enabled (not 'off')
+   * Check if decoration mode is enabled (not 'off') for the active editor
    */
   public isDecorationEnabled(): boolean {
-    const config = getConfig();
+    const config = getConfig(vscode.window.activeTextEditor?.document);
     return config.decorationMode !== 'off';
   }
 
@@ -85,7 +100,7 @@ export class InlineDecorationProvider {
    * Initialize decorations on startup
    */
   public async initOnStartup(): Promise<void> {
-    const config = getConfig();
+    const config = getConfig(vscode.window.activeTextEditor?.document);
     if (config.decorationMode !== 'off' && vscode.window.activeTextEditor) {
       setTimeout(() => {
         this.updateDecorations();
@@ -95,20 +110,21 @@ export class InlineDecorationProvider {
 
   /**
    * Toggle inline decorations
+   * Written where the active editor's mode comes from (workspace, folder or .lmtranslator.json).
    */
   public async toggle(): Promise<void> {
-    const config = vscode.workspace.getConfiguration('lmTranslator');
-    const currentMode = config.get<string>('decorationMode') ?? 'off';
+    const document = vscode.window.activeTextEditor?.document;
+    const currentMode = getConfig(document).decorationMode;
 
     const nextMode = currentMode === 'off' ? 'inline' : 'off';
-    await config.update('decorationMode', nextMode, vscode.ConfigurationTarget.Global);
+    const source = await FolderConfig.getInstance().update('decorationMode', nextMode, document);
 
     if (nextMode !== 'off') {
       await this.updateDecorations();
-      vscode.window.showInformationMessage(`LM Translator: Inline decorations enabled`);
+      vscode.window.showInformationMessage(`LM Translator: Inline decorations enabled (${source.label})`);
     } else {
       this.clearAllDecorations();
-      vscode.window.showInformationMessage('LM Translator: Inline decorations disabled');
+      vscode.window.showInformationMessage(`LM Translator: Inline decorations disabled (${source.label})`);
     }
   }
 
@@ -119,7 +135,8 @@ export class InlineDecorationProvider {
     const editor = vscode.window.activeTextEditor;
     if (!editor) { return; }
 
-    const config = getConfig();
+    const document = editor.document;
+    const config = getConfig(document);
     let mode = config.decorationMode as DecorationMode;
 
     // Backward compatibility for old 'below' setting
@@ -132,214 +149,46 @@ export class InlineDecorationProvider {
       return;
     }
 
-    const documentUri = editor.document.uri.toString();
-    const document = editor.document;
+    const documentUri = document.uri.toString();
 
     // Increment render ID to cancel any previous running tasks
     this.activeRenderId++;
     const renderId = this.activeRenderId;
+    const cancellationToken = this.resetRenderCancellation();
 
     try {
       const text = document.getText();
-      const allComments: { range: vscode.Range; text: string }[] = [];
-
-      // Get language ID to determine appropriate comment patterns
-      const languageId = document.languageId;
-
-      // Languages that use // for single-line comments
-      const slashSlashLangs = [
-        'javascript', 'typescript', 'javascriptreact', 'typescriptreact',
-        'java', 'c', 'cpp', 'csharp', 'go', 'rust', 'swift', 'kotlin',
-        'php', 'scss', 'less', 'json', 'jsonc'
-      ];
-
-      // Languages that use # for single-line comments (must be at line start)
-      const hashLangs = ['python', 'ruby', 'perl', 'shellscript', 'yaml', 'toml', 'dockerfile'];
-
-      // Languages that use -- for single-line comments
-      const doubleDashLangs = ['sql', 'plsql', 'lua', 'haskell'];
-
-      // PHTML/HTML - use // only (avoid jQuery $ issues with #)
-      const htmlLikeLangs = ['html', 'phtml', 'blade', 'twig', 'ejs', 'handlebars', 'vue'];
-
-      // Build patterns based on language
-      const singleLinePatterns: RegExp[] = [];
-
-      if (slashSlashLangs.includes(languageId) || htmlLikeLangs.includes(languageId)) {
-        singleLinePatterns.push(/\/\/.*$/gm);
-      }
-      if (hashLangs.includes(languageId)) {
-        singleLinePatterns.push(/^\s*#.*$/gm); // # must be at line start
-      }
-      if (doubleDashLangs.includes(languageId)) {
-        singleLinePatterns.push(/--.*$/gm);
-      }
-      // Default fallback: use // only (safest)
-      if (singleLinePatterns.length === 0) {
-        singleLinePatterns.push(/\/\/.*$/gm);
-      }
-
-      for (const pattern of singleLinePatterns) {
-        let match;
-        while ((match = pattern.exec(text)) !== null) {
-          const startPos = document.positionAt(match.index);
-          const endPos = document.positionAt(match.index + match[0].length);
-          const range = new vscode.Range(startPos, endPos);
-
-          const cleanText = match[0]
-            .replace(/^(\/\/|#|--)\s*/, '') // Remove start markers
-            .trim();
-
-          if (this.isValidComment(cleanText)) {
-            allComments.push({ range, text: cleanText });
-          }
-        }
-      }
-
-      // 2. Block Comments (/* */, <!-- -->, """ """)
-      const blockPatterns = [
-        { regex: /\/\*([\s\S]*?)\*\//gm, type: 'c-style' },       // JS, CSS, Java
-        { regex: /<!--([\s\S]*?)-->/gm, type: 'html' },           // HTML, XML
-        { regex: /"{3}([\s\S]*?)"{3}/gm, type: 'python-doc' },    // Python Docstring
-        { regex: /'{3}([\s\S]*?)'{3}/gm, type: 'python-doc-s' }   // Python Docstring (single quotes)
-      ];
-
-      for (const item of blockPatterns) {
-        let match;
-        while ((match = item.regex.exec(text)) !== null) {
-          const fullMatch = match[0];
-          const content = match[1]; // Captured group content
-          const matchStartOffset = match.index;
-
-          // Split block content into lines to support granular translation
-          const lines = content.split(/\r?\n/);
-          let currentOffset = matchStartOffset + fullMatch.indexOf(content);
-
-          for (let i = 0; i < lines.length; i++) {
-            const line = lines[i];
-            const lineTrimmed = line.trim();
-
-            // Clean specific chars like leading * for JSDoc
-            let textToTranslate = lineTrimmed;
-
-            if (item.type === 'c-style') {
-                textToTranslate = textToTranslate.replace(/^\*\s*/, '');
-            }
-            textToTranslate = textToTranslate.trim();
-
-            // Handle JSDoc tags (@param, @return, etc.)
-            // We want to skip the tag and variable/type, and keep ONLY the description
-            if (textToTranslate.startsWith('@')) {
-                // Regex Breakdown:
-                // ^@[a-zA-Z0-9_]+  => The tag (e.g., @param)
-                // (...)            => Optional type OR first word (e.g. {string} or string or [string])
-                // (...)            => Optional variable OR second word (e.g. $id or paramName)
-                // \s+(.+)          => The rest (Description) - MUST be present
-
-                // This is heuristic.
-                // Examples:
-                // @param int $id User ID -> Match "User ID"
-                // @param $id User ID -> Match "User ID"
-                // @return string Result -> Match "Result"
-                // @throws Exception If error -> Match "If error"
-
-                // Simple strategy: Split by space.
-                const parts = textToTranslate.split(/\s+/);
-
-                // Parts[0] is @tag
-                if (parts.length > 1) {
-                    // Look for the start of the description.
-                    let descStartIndex = -1;
-
-                    for (let j = 1; j < parts.length; j++) {
-                        const word = parts[j];
-                        // Skip if it looks like a type ({...}, [...]) or variable ($...)
-                        // Also skip if it is a simple identifier without symbols BUT we have to be careful.
-                        // "User ID" -> "User" is identifier.
-
-                        // Heuristic: If word contains specific chars or is wrapped, it's syntax.
-                        if (word.startsWith('{') || word.startsWith('[') || word.startsWith('$') || word.startsWith('<')) {
-                            continue;
-                        }
-
-                        // Skip pure identifiers (snake_case, camelCase, PascalCase, or single word type names)
-                        // These are likely type or variable names, not descriptions
-                        if (/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(word) && !word.includes(' ')) {
-                            // Check if ALL remaining words are also identifiers - if so, skip
-                            const remainingWords = parts.slice(j);
-                            const allIdentifiers = remainingWords.every(w =>
-                                /^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(w) ||
-                                w.startsWith('{') || w.startsWith('[') || w.startsWith('$') || w.startsWith('<')
-                            );
-                            if (allIdentifiers) {
-                                continue;
-                            }
-                        }
-
-                        // If it's a simple word, is it the variable name?
-                        // Usually JSDoc: @param {type} varName Description
-                        // PHPDoc: @param type $varName Description
-
-                        // If we haven't found a var yet (indicated by $ in PHP or position in JS), maybe this is it?
-                        // It's hard to distinguish "varName" from "DescriptionStart".
-
-                        // Let's assume description starts after the first 1-2 syntax-like tokens.
-                        // Or better: If the REST of the line contains spaces or looks like a sentence.
-
-                        // Let's take everything from index j onwards.
-                        const potentialDesc = parts.slice(j).join(' ');
-
-                        // If it has spaces (at least 2 words) OR contains CJK, assume it's description
-                        if (potentialDesc.includes(' ') || /[\u3040-\u309F\u30A0-\u30FF\u4E00-\u9FAF]/.test(potentialDesc)) {
-                             descStartIndex = j;
-                             break;
-                        }
-                    }
-
-                    if (descStartIndex !== -1) {
-                        textToTranslate = parts.slice(descStartIndex).join(' ');
-                    } else {
-                        // No clear description found
-                        textToTranslate = ''; // clear it so it fails validation
-                    }
-                } else {
-                    textToTranslate = '';
-                }
-            }
-
-            if (this.isValidComment(textToTranslate)) {
-                // Find start pos of this text within the line to create accurate range
-                // We map this decoration to the end of the line
-                const lineEndOffset = currentOffset + line.length;
-                const range = new vscode.Range(
-                    document.positionAt(lineEndOffset),
-                    document.positionAt(lineEndOffset)
-                );
-
-                allComments.push({ range, text: textToTranslate });
-            }
-
-            // Approximation for EOL length (1 for \n, 2 for \r\n, 0 for last)
-            const isLast = i === lines.length - 1;
-            const eolLength = isLast ? 0 : (text[currentOffset + line.length] === '\r' ? 2 : 1);
-
-            currentOffset += line.length + eolLength;
-          }
+      const allComments: DecorationTarget[] = [];
+      const targetLanguages = getTargetLanguages(document);
+      const [primaryLanguage, ...otherLanguages] = targetLanguages;
+
+      // 1. Comment paragraphs and docblock descriptions, then string literals (if enabled),
+      //    leaving out those already in every target language
+      for (const translatable of findTranslatableTexts(text, document.languageId, targetLanguages)) {
+        if (targetLanguages.every(lang => isInTargetLanguage(translatable.text, lang))) {
+          continue;
         }
+        allComments.push(this.createTarget(document, translatable.text, translatable.lines));
       }
 
       // 2. Identify cached vs missing comments
-      const cachedDecorations: vscode.DecorationOptions[] = [];
-      const missingComments: { range: vscode.Range; text: string }[] = [];
+      //    The primary language is shown inline, the other target languages on hover; a comment
+      //    is missing until every language is cached (or the text is already in that language)
+      const decorationsByComment = new Map<DecorationTarget, vscode.DecorationOptions[]>();
+      const missingComments: DecorationTarget[] = [];
 
       for (const comment of allComments) {
-        const cachedResult = this.service.getCachedResult(comment.text);
-        if (cachedResult) {
-          cachedDecorations.push(this.createDecorationOption(comment.range, cachedResult.translatedText, mode));
-        } else {
+        const inPrimaryLanguage = isInTargetLanguage(comment.text, primaryLanguage);
+        const cachedResult = inPrimaryLanguage ? undefined : this.service.getCachedResult(comment.text, undefined, document);
+        const others = otherLanguages.map(lang => this.service.getCachedResult(comment.text, lang, document));
+        if (cachedResult || inPrimaryLanguage) {
+          decorationsByComment.set(comment, this.createDecorationOptions(comment, cachedResult, mode, others));
+        }
+        if ((!cachedResult && !inPrimaryLanguage) || others.some((other, i) => !other && !isInTargetLanguage(comment.text, otherLanguages[i]))) {
           missingComments.push(comment);
         }
       }
+      const cachedDecorations = Array.from(decorationsByComment.values()).flat();
 
       // 3. Apply cached decorations IMMEDIATELY
       const activeType = mode === 'inline' ? this.inlineDecorationType : this.highlightedDecorationType;
@@ -375,38 +224,52 @@ export class InlineDecorationProvider {
           return distA - distB;
         });
 
-        // 5. Translate missing comments progressively
-        const currentDecorations = [...cachedDecorations];
+        // 5. Translate missing comments in batches - visible range first, then the background pass
+        //    Translated comments replace their cached decoration (if only another language was missing)
         const renderId = this.activeRenderId;
+        const batchSize = Math.max(1, config.batchSize);
+
+        const firstHiddenIndex = missingComments.findIndex(c => this.minDistanceToVisible(c.range, visibleRanges) > 0);
+        const visibleComments = firstHiddenIndex === -1 ? missingComments : missingComments.slice(0, firstHiddenIndex);
+        const backgroundComments = firstHiddenIndex === -1 ? [] : missingComments.slice(firstHiddenIndex);
+
+        passLoop:
+        for (const pass of [visibleComments, backgroundComments]) {
+          for (let i = 0; i < pass.length; i += batchSize) {
+            // Check cancellation
+            if (this.activeRenderId !== renderId || vscode.window.activeTextEditor?.document.uri.toString() !== documentUri) {
+              console.log('LM Translator: Decoration update cancelled');
+              break passLoop;
+            }
 
-        for (const comment of missingComments) {
-          // Check cancellation
-          if (this.activeRenderId !== renderId || vscode.window.activeTextEditor?.document.uri.toString() !== documentUri) {
-            console.log('LM Translator: Decoration update cancelled');
-            break;
-          }
-
-          try {
-            const result = await this.service.translate(comment.text);
-            const decoration = this.createDecorationOption(comment.range, result.translatedText, mode);
-
-            currentDecorations.push(decoration);
-
-            // Re-render if visible or periodically
-            const isVisible = visibleRanges.some(r => r.contains(comment.range) || r.intersection(comment.range));
-            if (isVisible || currentDecorations.length % 5 === 0) {
-               if (this.activeRenderId === renderId) {
-                 editor.setDecorations(activeType, currentDecorations);
-               }
+            const batch = pass.slice(i, i + batchSize);
+            try {
+              const [results, ...otherResults] = await this.service.translateBatchAll(batch.map(c => c.text), {
+                priority: 'background',
+                token: cancellationToken,
+                document
+              });
+              batch.forEach((comment, j) => {
+                const others = otherResults.map(languageResults => languageResults[j]);
+                decorationsByComment.set(comment, this.createDecorationOptions(comment, results[j], mode, others));
+              });
+
+              // Re-render after every batch
+              if (this.activeRenderId === renderId) {
+                editor.setDecorations(activeType, Array.from(decorationsByComment.values()).flat());
+              }
+            } catch (e) {
+              if (e instanceof vscode.CancellationError) {
+                break passLoop;
+              }
+              console.error('Batch translation failed', e);
             }
-          } catch (e) {
-            console.error('Translation failed', e);
           }
         }
 
         // Final update
         if (this.activeRenderId === renderId && vscode.window.activeTextEditor?.document.uri.toString() === documentUri) {
-            editor.setDecorations(activeType, currentDecorations);
+            editor.setDecorations(activeType, Array.from(decorationsByComment.values()).flat());
         }
       }
 
@@ -418,29 +281,79 @@ export class InlineDecorationProvider {
   }
 
   /**
-   * Check if comment text is valid for translation
+   * Cancel queued requests of the previous render and return a token for the new one
    */
-  private isValidComment(text: string): boolean {
-    // Must be at least 2 chars AND contain letters/CJK
+  private resetRenderCancellation(): vscode.CancellationToken {
+    this.renderCancellation?.cancel();
+    this.renderCancellation?.dispose();
+    this.renderCancellation = new vscode.CancellationTokenSource();
+    return this.renderCancellation.token;
+  }
 
-    // Ignore pure variable names (snake_case, camelCase, PascalCase) without spaces
-    // e.g. "table_id", "Zend_Exception", "camelCase"
-    if (/^[a-zA-Z0-9_\$]+$/.test(text)) {
-        return false;
+  /**
+   * Collect where a translated text is shown: its lines and the range it covers
+   */
+  private createTarget(document: vscode.TextDocument, text: string, lines: TextSpan[]): DecorationTarget {
+    return {
+      text,
+      range: new vscode.Range(document.positionAt(lines[0].start), document.positionAt(lines[lines.length - 1].end)),
+      lines: lines.map(line => new vscode.Range(document.positionAt(line.start), document.positionAt(line.end)))
+    };
+  }
+
+  /**
+   * Decorations for one translated text
+   * Multi-line paragraphs show the whole translation after the last line, or with
+   * lmTranslator.paragraphDisplay = 'spread' one part after each original line.
+   * Text already in the primary language gets only the hover.
+   * @param result Translation into the primary language (undefined or sameLanguage when the text is in it)
+   * @param others Translations into the other target languages, shown on hover (undefined when not available yet)
+   */
+  private createDecorationOptions(
+    target: DecorationTarget,
+    result: TranslationResult | undefined,
+    mode: DecorationMode,
+    others: (TranslationResult | undefined)[] = []
+  ): vscode.DecorationOptions[] {
+    if (!result || result.sameLanguage) {
+      const hoverMessage = this.createHoverMessage(undefined, others);
+      return hoverMessage ? [{ range: target.range, hoverMessage }] : [];
     }
 
-    return text.length >= 2 &&
-           /[a-zA-Z\u3040-\u309F\u30A0-\u30FF\u4E00-\u9FAF]/.test(text) &&
-           !/^[\s\*\-\/=]+$/.test(text); // Reject strings solely made of symbols
+    if (target.lines.length === 1 || getConfig().paragraphDisplay !== 'spread') {
+      return [this.createDecorationOption(target.lines[target.lines.length - 1], result, mode, others)];
+    }
+
+    // Line lengths in characters (paragraph lines never span a line break)
+    const parts = spreadTranslation(result.translatedText, target.lines.map(line => line.end.character - line.start.character));
+    return target.lines
+      .map((line, i) => ({ line, part: parts[i], first: i === 0 }))
+      .filter(({ part }) => part.length > 0)
+      .map(({ line, part, first }) => this.createDecorationOption(
+        line,
+        { ...result, translatedText: part, fromMemory: result.fromMemory && first },
+        mode,
+        others
+      ));
   }
 
   /**
    * Helper to create decoration option
+   * Approved translations (translation memory) are marked with ✓ and a hover note.
    */
-  private createDecorationOption(range: vscode.Range, text: string, mode: DecorationMode): vscode.DecorationOptions {
+  private createDecorationOption(
+    range: vscode.Range,
+    result: TranslationResult,
+    mode: DecorationMode,
+    others: (TranslationResult | undefined)[] = []
+  ): vscode.DecorationOptions {
+    const text = result.fromMemory ? `✓ ${result.translatedText}` : result.translatedText;
+    const hoverMessage = this.createHoverMessage(result, others);
+
     if (mode === 'inline') {
       return {
         range,
+        hoverMessage,
         renderOptions: {
           after: {
             contentText: ` → ${text}`,
@@ -452,6 +365,7 @@ export class InlineDecorationProvider {
     } else {
       return {
         range,
+        hoverMessage,
         renderOptions: {
           after: {
             contentText: ` 【${text}】`,
@@ -464,6 +378,22 @@ export class InlineDecorationProvider {
     }
   }
 
+  /**
+   * Hover of a decoration: the memory note and the translations into the other target languages
+   */
+  private createHoverMessage(result: TranslationResult | undefined, others: (TranslationResult | undefined)[]): vscode.MarkdownString | undefined {
+    const lines: string[] = [];
+    if (result?.fromMemory) {
+      lines.push('✓ Approved translation (translation memory)');
+    }
+    for (const other of others) {
+      if (other && !other.sameLanguage) {
+        lines.push(`**${other.targetLanguage}:** ${other.fromMemory ? '✓ ' : ''}${other.translatedText}`);
+      }
+    }
+    return lines.length > 0 ? new vscode.MarkdownString(lines.join('\n\n')) : undefined;
+  }
+
   /**
    * Calculate minimum line distance from range to any visible range
    */
@@ -504,6 +434,7 @@ export class InlineDecorationProvider {
     this.decoratedDocuments.clear();
     this.decorationCache.clear();
     this.activeRenderId++; // Invalidate any running tasks
+    this.resetRenderCancellation();
   }
 
   /**
@@ -513,7 +444,7 @@ export class InlineDecorationProvider {
     const activeEditor = vscode.window.activeTextEditor;
     if (!activeEditor || activeEditor.selection.isEmpty) { return; }
 
-    const config = getConfig();
+    const config = getConfig(activeEditor.document);
     let mode = config.decorationMode as DecorationMode;
     if (mode as string === 'below') mode = 'highlighted';
 
@@ -525,9 +456,9 @@ export class InlineDecorationProvider {
     try {
       const selection = activeEditor.selection;
       const text = activeEditor.document.getText(selection);
-      const result = await this.service.translate(text);
+      const result = await this.service.translate(text, undefined, { priority: 'interactive', document: activeEditor.document });
 
-      const decoration = this.createDecorationOption(selection, result.translatedText, mode);
+      const decoration = this.createDecorationOption(selection, result, mode);
       const type = mode === 'inline' ? this.inlineDecorationType : this.highlightedDecorationType;
 
       activeEditor.setDecorations(type, [decoration]);
@@ -0,0 +1,142 @@
+import { getConfig } from './config';
+
+/**
+ * Language detection
+ * Offline guess of the language of a text from its script (kana, Hangul, Cyrillic, ...) and,
+ * for Latin script, from diacritics and common short words. Good enough to label a comment's
+ * source language and to skip texts already in the target language; texts it is unsure about
+ * are reported as unknown.
+ */
+
+/**
+ * Result of a local detection
+ */
+export interface DetectedLanguage {
+  language: string; // English name, e.g. 'Japanese'
+  confidence: number; // 0..1
+}
+
+// Non-Latin scripts, checked in this order (kana before Han: Japanese mixes both)
+const SCRIPTS: { language: string; pattern: RegExp }[] = [
+  { language: 'Japanese', pattern: /[\u3040-\u309F\u30A0-\u30FF]/g },
+  { language: 'Korean', pattern: /[\uAC00-\uD7AF\u1100-\u11FF\u3130-\u318F]/g },
+  { language: 'Chinese', pattern: /[\u4E00-\u9FFF\u3400-\u4DBF]/g },
+  { language: 'Russian', pattern: /[\u0400-\u04FF]/g },
+  { language: 'Greek', pattern: /[\u0370-\u03FF]/g },
+  { language: 'Arabic', pattern: /[\u0600-\u06FF]/g },
+  { language: 'Hebrew', pattern: /[\u0590-\u05FF]/g },
+  { language: 'Thai', pattern: /[\u0E00-\u0E7F]/g },
+  { language: 'Hindi', pattern: /[\u0900-\u097F]/g }
+];
+
+const HAN = /[\u4E00-\u9FFF\u3400-\u4DBF]/g;
+// Letters only Ukrainian uses among Cyrillic alphabets
+const UKRAINIAN = /[\u0404\u0406\u0407\u0454\u0456\u0457\u0490\u0491]/;
+// Letters only Vietnamese uses among Latin alphabets (a with breve, d with stroke, horned o/u, stacked tone marks)
+const VIETNAMESE = /[\u0102\u0103\u0110\u0111\u01A0\u01A1\u01AF\u01B0\u1EA0-\u1EF9]/;
+const LATIN = /[a-zA-Z\u00C0-\u024F\u1E00-\u1EFF]/g;
+
+// Frequent short words of Latin-script languages (comments rarely lack all of them)
+const STOPWORDS: Record<string, string[]> = {
+  English: ['the', 'a', 'an', 'is', 'are', 'of', 'to', 'and', 'or', 'for', 'in', 'on', 'with', 'if', 'this', 'that', 'it', 'be', 'by', 'from', 'not', 'when', 'should', 'will', 'returns', 'get', 'set'],
+  French: ['le', 'la', 'les', 'des', 'du', 'un', 'une', 'est', 'et', 'pour', 'dans', 'sur', 'avec', 'pas', 'que', 'qui', 'ce', 'cette', 'si'],
+  German: ['der', 'die', 'das', 'und', 'ist', 'nicht', 'mit', 'für', 'ein', 'eine', 'wenn', 'auf', 'zu', 'den', 'dem', 'wird', 'von'],
+  Spanish: ['el', 'los', 'las', 'es', 'y', 'para', 'con', 'por', 'una', 'si', 'que', 'del', 'se', 'no', 'esta', 'este'],
+  Portuguese: ['o', 'os', 'as', 'é', 'e', 'para', 'com', 'não', 'um', 'uma', 'do', 'da', 'se', 'que', 'em', 'este', 'esta'],
+  Italian: ['il', 'lo', 'gli', 'è', 'e', 'per', 'con', 'non', 'un', 'una', 'del', 'della', 'che', 'se', 'questo'],
+  Dutch: ['de', 'het', 'een', 'is', 'en', 'van', 'voor', 'met', 'niet', 'als', 'op', 'dit', 'wordt']
+};
+
+// ISO 639-1 codes (Google Translate reports these) and their English names
+const LANGUAGE_NAMES: Record<string, string> = {
+  en: 'English', ja: 'Japanese', zh: 'Chinese', 'zh-cn': 'Chinese', 'zh-tw': 'Chinese', ko: 'Korean',
+  vi: 'Vietnamese', fr: 'French', de: 'German', es: 'Spanish', pt: 'Portuguese', it: 'Italian',
+  nl: 'Dutch', ru: 'Russian', uk: 'Ukrainian', el: 'Greek', ar: 'Arabic', he: 'Hebrew', iw: 'Hebrew',
+  th: 'Thai', hi: 'Hindi', pl: 'Polish', tr: 'Turkish', id: 'Indonesian'
+};
+
+/**
+ * Guess the language of a text without any network call
+ * @returns undefined when the text has no letters or the guess is too weak
+ */
+export function detectLanguage(text: string): DetectedLanguage | undefined {
+  const letters = text.match(/\p{L}/gu)?.length ?? 0;
+  if (letters === 0) {
+    return undefined;
+  }
+
+  // Non-Latin scripts: the share of letters in the script is the confidence
+  for (const { language, pattern } of SCRIPTS) {
+    let count = text.match(pattern)?.length ?? 0;
+    if (count === 0) {
+      continue;
+    }
+    if (language === 'Japanese') {
+      count += text.match(HAN)?.length ?? 0;
+    }
+    if (count / letters >= 0.3) {
+      const name = language === 'Russian' && UKRAINIAN.test(text) ? 'Ukrainian' : language;
+      // A few Han characters without kana may just as well be Japanese
+      const certainty = language === 'Chinese' && count < 6 ? 0.7 : 1;
+      return { language: name, confidence: Math.min(1, count / letters + 0.2) * certainty };
+    }
+  }
+
+  const latin = text.match(LATIN)?.length ?? 0;
+  const latinShare = latin / letters;
+  if (latinShare < 0.5) {
+    return undefined;
+  }
+
+  const words = text.toLowerCase().match(/[\p{L}']+/gu) || [];
+  const vietnameseWords = words.filter(word => VIETNAMESE.test(word)).length;
+  if (vietnameseWords > 0 && vietnameseWords / words.length >= 0.2) {
+    return { language: 'Vietnamese', confidence: latinShare * Math.min(1, vietnameseWords / words.length + 0.4) };
+  }
+
+  const scores = Object.entries(STOPWORDS)
+    .map(([language, stopwords]) => ({ language, hits: words.filter(word => stopwords.includes(word)).length }))
+    .sort((a, b) => b.hits - a.hits);
+  const totalHits = scores.reduce((sum, score) => sum + score.hits, 0);
+  if (scores[0].hits === 0) {
+    return undefined;
+  }
+
+  // Short texts with a single hit ("Fetch by id") are a weak signal
+  const share = scores[0].hits / totalHits;
+  return { language: scores[0].language, confidence: latinShare * share * (scores[0].hits >= 2 ? 1 : 0.6) };
+}
+
+/**
+ * English name of a language given by name or ISO code ('ja' → 'Japanese')
+ */
+export function getLanguageName(language: string): string {
+  const trimmed = language.trim();
+  return LANGUAGE_NAMES[trimmed.toLowerCase()] || trimmed;
+}
+
+/**
+ * Whether two language names or codes refer to the same language
+ * Variants in parentheses are ignored ("Chinese (Simplified)" matches "Chinese").
+ */
+export function isSameLanguage(a: string, b: string): boolean {
+  const base = (language: string) => getLanguageName(language).replace(/\s*\(.*\)$/, '').toLowerCase();
+  return base(a) === base(b);
+}
+
+/**
+ * Whether a text is already in the target language and need not be translated
+ * Only detections at or above lmTranslator.skipSameLanguage.confidence count, so texts the
+ * check is unsure about are still translated.
+ */
+export function isInTargetLanguage(text: string, targetLanguage?: string): boolean {
+  const config = getConfig();
+  if (!config.skipSameLanguageEnabled) {
+    return false;
+  }
+
+  const detected = detectLanguage(text);
+  return !!detected &&
+    detected.confidence >= config.skipSameLanguageConfidence &&
+    isSameLanguage(detected.language, targetLanguage || config.targetLanguage);
+}
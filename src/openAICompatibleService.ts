@@ -0,0 +1,96 @@
+import * as vscode from 'vscode';
+import { getConfig } from './config';
+import { ChatCompletionService } from './chatCompletionService';
+
+/**
+ * SecretStorage key for the OpenAI-compatible API key
+ */
+export const OPENAI_COMPATIBLE_API_KEY_SECRET = 'lmTranslator.openAICompatible.apiKey';
+
+/**
+ * Generic OpenAI-compatible API Service
+ * Works with Ollama, llama.cpp server, vLLM and other gateways exposing /chat/completions.
+ * The API key lives in VS Code SecretStorage, never in settings.
+ */
+export class OpenAICompatibleService extends ChatCompletionService {
+  private static instance: OpenAICompatibleService;
+  protected readonly provider = 'OpenAI Compatible';
+  protected readonly displayName = 'OpenAI-compatible server';
+  private apiKey: string | undefined;
+  private apiKeyLoading: Promise<void> | undefined; // Awaited by requests made before the key is read
+
+  private constructor() {
+    super();
+  }
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): OpenAICompatibleService {
+    if (!OpenAICompatibleService.instance) {
+      OpenAICompatibleService.instance = new OpenAICompatibleService();
+    }
+    return OpenAICompatibleService.instance;
+  }
+
+  /**
+   * Load the API key from SecretStorage
+   */
+  public initialize(context: vscode.ExtensionContext): void {
+    this.context = context;
+    this.apiKeyLoading = this.loadApiKey(context);
+
+    context.subscriptions.push(
+      context.secrets.onDidChange((e) => {
+        if (e.key === OPENAI_COMPATIBLE_API_KEY_SECRET) {
+          this.apiKeyLoading = this.loadApiKey(context);
+        }
+      })
+    );
+  }
+
+  /**
+   * Store (or clear, when empty) the API key in SecretStorage
+   */
+  public async setApiKey(apiKey: string | undefined): Promise<void> {
+    if (!this.context) { return; }
+    if (apiKey) {
+      await this.context.secrets.store(OPENAI_COMPATIBLE_API_KEY_SECRET, apiKey);
+    } else {
+      await this.context.secrets.delete(OPENAI_COMPATIBLE_API_KEY_SECRET);
+    }
+    this.apiKey = apiKey || undefined;
+  }
+
+  /**
+   * Check if an API key is configured
+   */
+  public hasApiKey(): boolean {
+    return !!this.apiKey;
+  }
+
+  private async loadApiKey(context: vscode.ExtensionContext): Promise<void> {
+    try {
+      this.apiKey = await context.secrets.get(OPENAI_COMPATIBLE_API_KEY_SECRET);
+    } catch (e) {
+      console.error('LM Translator: Could not read the OpenAI-compatible API key', e);
+    }
+  }
+
+  protected getBaseUrl(): string {
+    return getConfig().openAICompatibleUrl;
+  }
+
+  protected getModel(): string {
+    return getConfig().openAICompatibleModel;
+  }
+
+  protected async getHeaders(): Promise<Record<string, string>> {
+    await this.apiKeyLoading;
+    const headers: Record<string, string> = { ...getConfig().openAICompatibleHeaders };
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+    return headers;
+  }
+}
@@ -1,6 +1,17 @@
 import * as vscode from 'vscode';
-import { getConfig } from './config';
+import { getConfig, getTargetLanguages } from './config';
 import { TranslationServiceManager } from './translationService';
+import { TranslationCache } from './translationCache';
+import { TranslationProvider } from './types';
+import { FolderConfig } from './folderConfig';
+
+/**
+ * Short provider label for the status bar text
+ */
+function getProviderIcon(provider: TranslationProvider): string {
+  return provider === 'Google Translate' ? 'G'
+    : provider === 'OpenAI Compatible' ? 'AI' : 'LM';
+}
 
 /**
  * Status Bar Manager for LM Translator
@@ -18,6 +29,10 @@ export class StatusBarManager {
       100
     );
     this.statusBarItem.command = 'lmTranslator.showStatusMenu';
+
+    // Reflect fallback switches as soon as a translation lands on another provider
+    TranslationServiceManager.getInstance().onDidChangeFallback(() => this.updateStatus());
+
     this.updateStatus();
     this.statusBarItem.show();
   }
@@ -36,18 +51,22 @@ export class StatusBarManager {
    * Update status bar display
    */
   public updateStatus(): void {
-    const config = getConfig();
+    const config = getConfig(vscode.window.activeTextEditor?.document);
     const serviceManager = TranslationServiceManager.getInstance();
-    const service = serviceManager.getService();
-    // Only verify cache if available in service
-    const cacheSize = 'getCacheSize' in service ? (service as any).getCacheSize() : 0;
+    const cacheSize = TranslationCache.getInstance().getSize();
 
-    // Show cache icon when disconnected but cache is available
-    const connectionIcon = this.isConnected ? '🟢' : (cacheSize > 0 ? '🟡' : '🔴');
+    const fallback = serviceManager.getActiveFallback();
+
+    // Show cache icon when disconnected but cache is available, orange when running on a fallback
+    const connectionIcon = !this.isConnected ? (cacheSize > 0 ? '🟡' : '🔴') : (fallback ? '🟠' : '🟢');
     const decorationIcon = config.decorationMode !== 'off' ? '✨' : '';
-    const providerIcon = config.provider === 'Google Translate' ? 'G' : 'LM';
+    const providerIcon = fallback
+      ? `${getProviderIcon(config.provider)}→${getProviderIcon(fallback)}`
+      : getProviderIcon(config.provider);
+
+    const profileLabel = config.activeProfile ? `: ${config.activeProfile}` : '';
 
-    this.statusBarItem.text = `${connectionIcon} [${providerIcon}] Translator ${decorationIcon}`;
+    this.statusBarItem.text = `${connectionIcon} [${providerIcon}${profileLabel}] Translator ${decorationIcon}`;
     this.statusBarItem.tooltip = this.getTooltip();
   }
 
@@ -55,24 +74,30 @@ export class StatusBarManager {
    * Get tooltip text
    */
   private getTooltip(): string {
-    const config = getConfig();
+    const document = vscode.window.activeTextEditor?.document;
+    const config = getConfig(document);
+    const folderConfig = FolderConfig.getInstance();
     const serviceManager = TranslationServiceManager.getInstance();
-    const service = serviceManager.getService();
-    const cacheSize = (service as any).getCacheSize ? (service as any).getCacheSize() : 0;
+    const cacheSize = TranslationCache.getInstance().getSize();
+
+    const fallback = serviceManager.getActiveFallback();
 
     let status = this.isConnected ? 'Connected' : 'Disconnected';
     if (!this.isConnected && cacheSize > 0) {
       status = 'Disconnected (Cache Mode)';
+    } else if (this.isConnected && fallback) {
+      status = `Fallback: ${fallback} (${config.provider} unavailable)`;
     }
 
     const decoration = config.decorationMode === 'off' ? 'Off'
       : config.decorationMode === 'inline' ? 'Inline' : 'Highlighted';
 
     let tooltip = `LM Translator (${config.provider})\n` +
+      `Profile: ${config.activeProfile || 'Default'}\n` +
       `Status: ${status}\n` +
       `Cache: ${cacheSize} entries\n` +
-      `Decoration: ${decoration}\n` +
-      `Target: ${config.targetLanguage}`;
+      `Decoration: ${decoration} (${folderConfig.getSource('decorationMode', document).label})\n` +
+      `Target: ${getTargetLanguages(document).join(', ')} (${folderConfig.getSource('targetLanguage', document).label})`;
 
     if (this.lastCheckTime) {
       const timeStr = this.lastCheckTime.toLocaleTimeString();
@@ -109,8 +134,8 @@ export class StatusBarManager {
    * Check connection and update status
    */
   public async checkConnection(): Promise<void> {
-    const service = TranslationServiceManager.getInstance().getService();
-    const isAvailable = await service.isAvailable();
+    // Walks the fallback chain, so "connected" means some provider can answer
+    const isAvailable = await TranslationServiceManager.getInstance().isAvailable();
     this.lastCheckTime = new Date();
     this.setConnected(isAvailable);
   }
@@ -148,7 +173,9 @@ export class StatusBarManager {
  * Show status menu with quick actions
  */
 export async function showStatusMenu(): Promise<void> {
-  const config = getConfig();
+  const document = vscode.window.activeTextEditor?.document;
+  const config = getConfig(document);
+  const folderConfig = FolderConfig.getInstance();
   const statusBar = StatusBarManager.getInstance();
 
   const decorationLabel = config.decorationMode === 'off' ? 'Enable Inline Decorations'
@@ -161,11 +188,23 @@ export async function showStatusMenu(): Promise<void> {
     },
     {
       label: `$(sparkle) ${decorationLabel}`,
-      description: 'Show translations inline (Ctrl+Shift+B to cycle)'
+      description: `Show translations inline (Ctrl+Shift+B to cycle) · from ${folderConfig.getSource('decorationMode', document).label}`
+    },
+    {
+      label: '$(book) Change Target Language',
+      description: `Current: ${config.targetLanguage} · from ${folderConfig.getSource('targetLanguage', document).label}`
+    },
+    {
+      label: '$(server) Switch Profile',
+      description: `Current: ${config.activeProfile || 'Default'}`
     },
     {
       label: '$(refresh) Check Connection',
-      description: 'Check LM Studio connection status'
+      description: 'Check translation provider connection status'
+    },
+    {
+      label: '$(database) Browse Translation Cache',
+      description: 'Search, correct, pin or delete cached translations'
     },
     {
       label: '$(trash) Clear Translation Cache',
@@ -189,15 +228,42 @@ export async function showStatusMenu(): Promise<void> {
     await vscode.commands.executeCommand('lmTranslator.showPanel');
   } else if (selected.label.includes('Decoration') || selected.label.includes('Inline')) {
     await vscode.commands.executeCommand('lmTranslator.cycleDecorationMode');
+  } else if (selected.label.includes('Target Language')) {
+    await changeTargetLanguage(document);
+  } else if (selected.label.includes('Switch Profile')) {
+    await vscode.commands.executeCommand('lmTranslator.selectProfile');
   } else if (selected.label.includes('Connection')) {
     await statusBar.checkConnection();
-    const isConnected = await TranslationServiceManager.getInstance().getService().isAvailable();
+    const isConnected = statusBar.getConnected();
+    const fallback = TranslationServiceManager.getInstance().getActiveFallback();
     vscode.window.showInformationMessage(
-      isConnected ? `LM Translator: Connected to ${config.provider}` : `LM Translator: Cannot connect to ${config.provider}`
+      !isConnected ? `LM Translator: Cannot connect to ${config.provider}`
+        : fallback ? `LM Translator: ${config.provider} unavailable, using fallback ${fallback}`
+        : `LM Translator: Connected to ${config.provider}`
     );
+  } else if (selected.label.includes('Browse Translation Cache')) {
+    await vscode.commands.executeCommand('lmTranslator.openCacheBrowser');
   } else if (selected.label.includes('Clear Translation Cache')) {
     await vscode.commands.executeCommand('lmTranslator.clearCache');
   } else if (selected.label.includes('Settings')) {
     await vscode.commands.executeCommand('workbench.action.openSettings', 'lmTranslator');
   }
 }
+
+/**
+ * Ask for a new target language and store it where the current one comes from
+ */
+async function changeTargetLanguage(document: vscode.TextDocument | undefined): Promise<void> {
+  const language = await vscode.window.showInputBox({
+    prompt: 'Target language',
+    value: getConfig(document).targetLanguage,
+    validateInput: value => value.trim() ? undefined : 'Enter a language name'
+  });
+  if (!language) {
+    return;
+  }
+
+  const source = await FolderConfig.getInstance().update('targetLanguage', language.trim(), document);
+  StatusBarManager.getInstance().updateStatus();
+  vscode.window.showInformationMessage(`LM Translator: Target language → ${language.trim()} (${source.label})`);
+}
@@ -0,0 +1,83 @@
+import { getConfig } from './config';
+
+/**
+ * String literal translation
+ * Decides which string literals hold user-facing prose (error messages, labels)
+ * worth translating, and which are code in disguise (paths, SQL, format strings, regexes).
+ */
+
+const CJK = /[\u3040-\u309F\u30A0-\u30FF\u4E00-\u9FAF\uAC00-\uD7AF]/;
+
+/**
+ * Whether string literals should be translated in documents of this language
+ */
+export function isStringTranslationEnabled(languageId: string): boolean {
+  const config = getConfig();
+  return config.stringLiteralsEnabled &&
+    (config.stringLiteralsLanguages.length === 0 || config.stringLiteralsLanguages.includes(languageId));
+}
+
+/**
+ * Turn the raw content of a literal into the text to translate (common escapes resolved)
+ */
+export function getStringText(content: string): string {
+  return content
+    .replace(/\\[nrt]/g, ' ')
+    .replace(/\\(["'`\\])/g, '$1')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Check if a string literal looks like natural language
+ */
+export function isTranslatableString(text: string): boolean {
+  if (text.length < getConfig().stringLiteralsMinLength) {
+    return false;
+  }
+
+  if (isPath(text) || isSql(text) || isRegex(text) || /^use \w+$/.test(text)) {
+    return false;
+  }
+
+  // Format strings: judge only what is left once placeholders are removed ("%s: %d", "{0}/{1}", "%Y-%m-%d")
+  const prose = text
+    .replace(/%[-+#0]*\d*(\.\d+)?[a-zA-Z%@]/g, ' ')
+    .replace(/\$?\{[^{}]*\}/g, ' ')
+    .trim();
+
+  if (CJK.test(prose)) {
+    return true;
+  }
+
+  const words = prose.split(/\s+/).filter(word => /\p{L}{2,}/u.test(word));
+  if (words.length === 0) {
+    return false;
+  }
+  if (words.length === 1) {
+    // Labels like "Cancel" or "Saved!" - but not keys like "userId" or "utf8"
+    return /^\p{Lu}\p{Ll}+[.!?:]?$/u.test(words[0]);
+  }
+
+  // Mostly identifiers, flags or markup ("btn btn_primary", "--force --dry-run", "a.b c.d") is code
+  const codeLike = words.filter(word => /[_.\/\\=<>{}()\[\]#@$]|^-|[a-z][A-Z]/.test(word.replace(/[.,!?:;]$/, '')));
+  return codeLike.length * 2 < words.length;
+}
+
+function isPath(text: string): boolean {
+  return /^[a-z][a-z0-9+.-]*:\/\/\S*$/i.test(text) || // URL
+    /^(\.{0,2}\/|~\/|[a-zA-Z]:\\|\\\\)\S*$/.test(text) || // ./x, /usr/lib, C:\x
+    /^[\w.@-]+(\/[\w.@-]+)+\/?$/.test(text) || // src/app/main.ts
+    /^[\w-]+\.[a-z0-9]{1,5}$/i.test(text); // main.ts
+}
+
+function isSql(text: string): boolean {
+  return /^\s*(select|insert|update|delete|create|alter|drop|with|merge|truncate)\s/i.test(text) &&
+    /\b(from|into|set|table|where|values|join|as)\b/i.test(text);
+}
+
+function isRegex(text: string): boolean {
+  const metaChars = text.match(/[\\^$*+?()[\]{}|]/g)?.length ?? 0;
+  return (/^\^/.test(text) && /\$$/.test(text)) ||
+    (metaChars >= 3 && metaChars / text.length > 0.15);
+}
@@ -0,0 +1,112 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { extractComments, getCommentContent, tokenize } from '../commentExtractor';
+
+/**
+ * Text of each comment found in a snippet, delimiters included
+ */
+function comments(text: string, languageId: string): string[] {
+  return extractComments(text, languageId).map(token => text.slice(token.start, token.end));
+}
+
+describe('extractComments', () => {
+  describe('// inside strings and URLs', () => {
+    it('ignores // in string literals', () => {
+      const text = 'const url = "http://example.com"; // Home page\nconst s = \'a // b\';';
+      assert.deepStrictEqual(comments(text, 'typescript'), ['// Home page']);
+    });
+
+    it('ignores // in template literals spanning lines', () => {
+      const text = 'const s = `first\n// not a comment\n`; // Real comment';
+      assert.deepStrictEqual(comments(text, 'javascript'), ['// Real comment']);
+    });
+
+    it('ignores URLs outside of strings', () => {
+      const text = '<a href=x>see http://example.com/page</a>\n<!-- Link -->';
+      assert.deepStrictEqual(comments(text, 'html'), ['<!-- Link -->']);
+    });
+  });
+
+  describe('CSS', () => {
+    it('does not treat colors as comments', () => {
+      const text = 'a { color: #fff; background: url(http://example.com/bg.png); } /* Links */';
+      assert.deepStrictEqual(comments(text, 'css'), ['/* Links */']);
+    });
+
+    it('has no line comments', () => {
+      const text = '.hero { background: #000; } // Not a comment in CSS\n/* Hero */';
+      assert.deepStrictEqual(comments(text, 'css'), ['/* Hero */']);
+    });
+
+    it('skips protocol-relative URLs in url()', () => {
+      const text = '.logo {\n  background: url(//cdn.example.com/x.png) no-repeat; /* Logo */\n}';
+      for (const languageId of ['css', 'scss', 'less']) {
+        assert.deepStrictEqual(comments(text, languageId), ['/* Logo */'], languageId);
+      }
+    });
+
+    it('still finds line comments after url() in SCSS', () => {
+      const text = '$logo: url(//cdn.example.com/x.png); // Shared logo';
+      assert.deepStrictEqual(comments(text, 'scss'), ['// Shared logo']);
+    });
+  });
+
+  describe('SQL', () => {
+    it('ignores -- inside quotes', () => {
+      const text = 'SELECT \'--\' AS dashes, \'it\'\'s -- fine\' FROM t; -- Dashes';
+      assert.deepStrictEqual(comments(text, 'sql'), ['-- Dashes']);
+    });
+  });
+
+  describe('shell', () => {
+    it('does not treat $# and ${#var} as comments', () => {
+      const text = 'echo $# ${#name} # Argument count\necho "# quoted" \'# single\'';
+      assert.deepStrictEqual(comments(text, 'shellscript'), ['# Argument count']);
+    });
+  });
+
+  describe('regex literals', () => {
+    it('ignores comment markers and quotes in regexes', () => {
+      const text = 'const re = /\\/\\/ "x/g; // Slashes\nconst other = /[/*]/.test(s); /* Star */';
+      assert.deepStrictEqual(comments(text, 'typescript'), ['// Slashes', '/* Star */']);
+    });
+
+    it('still reads a slash after an operand as division', () => {
+      const text = 'const half = total / 2; // Half\nconst q = a / b / c; // Quotient';
+      assert.deepStrictEqual(comments(text, 'javascript'), ['// Half', '// Quotient']);
+    });
+  });
+
+  describe('block comments', () => {
+    it('finds Lua block comments', () => {
+      const text = '--[[ Multi\nline ]]\nlocal s = "--[[ not ]]" -- Line';
+      assert.deepStrictEqual(comments(text, 'lua'), ['--[[ Multi\nline ]]', '-- Line']);
+    });
+
+    it('finds Haskell block comments', () => {
+      const text = '{- Multi\nline -}\nmain = putStrLn "-- no" -- Line';
+      assert.deepStrictEqual(comments(text, 'haskell'), ['{- Multi\nline -}', '-- Line']);
+    });
+
+    it('finds PowerShell block comments', () => {
+      const text = '<# Multi\nline #>\nWrite-Host "# no" # Line';
+      assert.deepStrictEqual(comments(text, 'powershell'), ['<# Multi\nline #>', '# Line']);
+    });
+  });
+
+  describe('Rust', () => {
+    it('does not treat lifetimes as the start of a string', () => {
+      const text = 'fn first<\'a>(s: &\'a str) -> &\'a str { s } // Borrowed\nlet c = \'"\'; // Quote char';
+      assert.deepStrictEqual(comments(text, 'rust'), ['// Borrowed', '// Quote char']);
+    });
+  });
+});
+
+describe('tokenize', () => {
+  it('returns strings and comments in document order', () => {
+    const text = 'x = "a" # b';
+    const tokens = tokenize(text, 'python');
+    assert.deepStrictEqual(tokens.map(token => token.kind), ['string', 'line']);
+    assert.strictEqual(getCommentContent(text, tokens[1]), ' b');
+  });
+});
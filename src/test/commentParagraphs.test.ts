@@ -0,0 +1,52 @@
+import './setup';
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { extractComments } from '../commentExtractor';
+import { findGeneratedLines } from '../commentParagraphs';
+import { findTranslatableTexts } from '../translatableText';
+
+/**
+ * Lines (0-based) that findGeneratedLines reports for a snippet
+ */
+function generatedLines(text: string, languageId: string, targetLanguages: string[]): number[] {
+  return Array.from(findGeneratedLines(text, extractComments(text, languageId), targetLanguages))
+    .map(offset => text.slice(0, offset).split('\n').length - 1)
+    .sort((a, b) => a - b);
+}
+
+describe('findGeneratedLines', () => {
+  it('finds the lines bilingual mode added', () => {
+    const text = '// Lấy danh sách người dùng\n// [English] Get the list of users\nconst users = [];';
+    assert.deepStrictEqual(generatedLines(text, 'typescript', ['English']), [1]);
+  });
+
+  it('finds lines added for any target language, in block comments too', () => {
+    const text = '/*\n * Xin chào\n * [English] Hello\n * [Japanese] こんにちは\n */';
+    assert.deepStrictEqual(generatedLines(text, 'typescript', ['English', 'Japanese']), [2, 3]);
+  });
+
+  it('keeps comments starting with other bracketed words', () => {
+    const text = '// [HACK] Work around the broken upstream parser here\n/// [Deprecated] Use the new api instead of this one';
+    assert.deepStrictEqual(generatedLines(text, 'typescript', ['English', 'Vietnamese']), []);
+  });
+
+  it('does not treat labels as patterns', () => {
+    const text = '// [Chinese (Simplified)] 你好\n// [Chinese] Not added for this language';
+    assert.deepStrictEqual(generatedLines(text, 'typescript', ['Chinese (Simplified)']), [0]);
+  });
+});
+
+describe('findTranslatableTexts', () => {
+  it('translates comments starting with a bracketed word', () => {
+    const text = '// [HACK] Work around the broken upstream parser here\nfoo();\n/// [Deprecated] Use the new api instead of this one\nbar();';
+    assert.deepStrictEqual(findTranslatableTexts(text, 'typescript', ['Vietnamese']).map(t => t.text), [
+      '[HACK] Work around the broken upstream parser here',
+      '[Deprecated] Use the new api instead of this one'
+    ]);
+  });
+
+  it('leaves out the lines bilingual mode added', () => {
+    const text = '// Lấy danh sách người dùng\n// [English] Get the list of users\nconst users = [];';
+    assert.deepStrictEqual(findTranslatableTexts(text, 'typescript', ['English']).map(t => t.text), ['Lấy danh sách người dùng']);
+  });
+});
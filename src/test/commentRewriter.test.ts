@@ -0,0 +1,69 @@
+import './setup';
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { displayWidth, rewriteParagraph, wrap } from '../commentRewriter';
+import { findCommentLocations } from '../translatableText';
+
+/**
+ * A snippet with its comment paragraphs replaced by translations, in order
+ * Replacements are applied from the end so earlier offsets stay valid, as the editor edit does.
+ */
+function rewrite(text: string, languageId: string, translations: string[]): string {
+  const locations = findCommentLocations(text, languageId, ['English']);
+  let result = text;
+  for (let i = locations.length - 1; i >= 0; i--) {
+    const replacement = rewriteParagraph(text, locations[i], translations[i]);
+    if (replacement !== undefined) {
+      const { start, end } = locations[i].paragraph;
+      result = result.slice(0, start) + replacement + result.slice(end);
+    }
+  }
+  return result;
+}
+
+/**
+ * Paragraph texts found in a snippet
+ */
+function paragraphs(text: string, languageId: string): string[] {
+  return findCommentLocations(text, languageId, ['English']).map(location => location.paragraph.text);
+}
+
+describe('rewriteParagraph', () => {
+  it('rewraps line comments and keeps their markers', () => {
+    const text = '// ユーザーの一覧をサーバーから取得して\n// 画面に表示する\nfunction load() {}';
+    const translation = 'Fetch the list of users from the server and show it on the screen';
+    const result = rewrite(text, 'typescript', [translation]);
+
+    assert.strictEqual(result, '// Fetch the list of users from the\n// server and show it on the screen\nfunction load() {}');
+    assert.deepStrictEqual(paragraphs(result, 'typescript'), [translation]);
+  });
+
+  it('keeps the docblock frame and tags', () => {
+    const text = '/**\n * ユーザーを読み込む処理。サーバーへの接続が必要です。\n * @param id ユーザーID\n */\nfunction load(id) {}';
+    const translations = ['Loads the user. A connection to the server is required.', 'User ID'];
+    const result = rewrite(text, 'typescript', translations);
+
+    assert.strictEqual(result, '/**\n * Loads the user. A connection to the server is required.\n * @param id User ID\n */\nfunction load(id) {}');
+    assert.deepStrictEqual(paragraphs(result, 'typescript'), translations);
+  });
+
+  it('leaves the paragraph alone when the translation would close the comment or is unchanged', () => {
+    const text = '/* 設定を読み込む */';
+    const [location] = findCommentLocations(text, 'typescript', ['English']);
+
+    assert.strictEqual(rewriteParagraph(text, location, 'Load */ the settings'), undefined);
+    assert.strictEqual(rewriteParagraph(text, location, '設定を読み込む'), undefined);
+  });
+});
+
+describe('wrap', () => {
+  it('wraps words at the given widths', () => {
+    assert.deepStrictEqual(wrap('one two three four five', 9, 9), ['one two', 'three', 'four five']);
+    assert.deepStrictEqual(wrap('one two three', 3, 20), ['one', 'two three']);
+  });
+
+  it('wraps text without spaces by character, counting wide characters as two columns', () => {
+    assert.strictEqual(displayWidth('設定'), 4);
+    assert.deepStrictEqual(wrap('設定を読み込む', 6, 6), ['設定を', '読み込', 'む']);
+  });
+});
@@ -0,0 +1,71 @@
+import './setup';
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { extractComments } from '../commentExtractor';
+import { parseDocblocks } from '../docblockParser';
+
+/**
+ * Description texts of every docblock in a snippet
+ */
+function descriptions(text: string, languageId: string): string[] {
+  return parseDocblocks(text, extractComments(text, languageId), languageId)
+    .flatMap(docblock => docblock.descriptions.map(description => description.text));
+}
+
+describe('parseDocblocks', () => {
+  it('joins wrapped JSDoc lines and keeps tag descriptions without code examples', () => {
+    const text = [
+      '/**',
+      ' * Load the user list',
+      ' * from the server.',
+      ' * @param id The user id',
+      ' * @returns The users',
+      ' * @example',
+      ' * loadUsers(1);',
+      ' */'
+    ].join('\n');
+    assert.deepStrictEqual(descriptions(text, 'typescript'), [
+      'Load the user list from the server.',
+      'The user id',
+      'The users'
+    ]);
+  });
+
+  it('keeps one-word descriptions', () => {
+    assert.deepStrictEqual(descriptions('/** Constructor */\nconstructor() {}', 'typescript'), ['Constructor']);
+  });
+
+  it('reads PHPDoc tags', () => {
+    const text = '/**\n * Find a user\n * @param int $id Identifier\n * @throws NotFoundException When missing\n */';
+    assert.deepStrictEqual(descriptions(text, 'php'), ['Find a user', 'Identifier', 'When missing']);
+  });
+
+  it('reads Google style Python docstrings', () => {
+    const text = [
+      'def add(a, b):',
+      '    """Add numbers.',
+      '',
+      '    Args:',
+      '        a: First number.',
+      '',
+      '    Returns:',
+      '        The sum.',
+      '    """'
+    ].join('\n');
+    assert.deepStrictEqual(descriptions(text, 'python'), ['Add numbers.', 'First number.', 'The sum.']);
+  });
+
+  it('skips Rust doc sections and code fences', () => {
+    const text = [
+      '/// Parse the input into tokens.',
+      '///',
+      '/// # Examples',
+      '///',
+      '/// ```',
+      '/// let tokens = parse("a b");',
+      '/// ```',
+      'fn parse(input: &str) -> Vec<Token> {}'
+    ].join('\n');
+    assert.deepStrictEqual(descriptions(text, 'rust'), ['Parse the input into tokens.']);
+  });
+});
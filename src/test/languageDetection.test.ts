@@ -0,0 +1,63 @@
+import './setup';
+import * as assert from 'assert';
+import { afterEach, describe, it } from 'node:test';
+import { detectLanguage, getLanguageName, isInTargetLanguage, isSameLanguage } from '../languageDetection';
+import { settings } from './vscode';
+
+describe('detectLanguage', () => {
+  it('detects languages from their script', () => {
+    assert.strictEqual(detectLanguage('ユーザーの一覧を取得する')?.language, 'Japanese');
+    assert.strictEqual(detectLanguage('获取用户列表')?.language, 'Chinese');
+    assert.strictEqual(detectLanguage('Получить список пользователей')?.language, 'Russian');
+  });
+
+  it('detects Latin-script languages from common words', () => {
+    assert.strictEqual(detectLanguage('Get the list of users from the server')?.language, 'English');
+    assert.strictEqual(detectLanguage('Lấy danh sách người dùng từ máy chủ')?.language, 'Vietnamese');
+  });
+
+  it('gives short texts a low confidence', () => {
+    const detected = detectLanguage('Fetch by id');
+    assert.strictEqual(detected?.language, 'English');
+    assert.ok(detected.confidence < 0.8);
+  });
+
+  it('returns undefined without a signal', () => {
+    assert.strictEqual(detectLanguage('id'), undefined);
+  });
+});
+
+describe('isInTargetLanguage', () => {
+  afterEach(() => settings.clear());
+
+  it('skips texts already in the target language', () => {
+    assert.strictEqual(isInTargetLanguage('Get the list of users from the server', 'English'), true);
+    assert.strictEqual(isInTargetLanguage('ユーザーの一覧を取得する', 'ja'), true);
+    assert.strictEqual(isInTargetLanguage('ユーザーの一覧を取得する', 'English'), false);
+  });
+
+  it('translates texts the detection is unsure about', () => {
+    assert.strictEqual(isInTargetLanguage('Fetch by id', 'English'), false);
+  });
+
+  it('uses the configured target language and threshold', () => {
+    settings.set('targetLanguage', 'Japanese');
+    assert.strictEqual(isInTargetLanguage('ユーザーの一覧を取得する'), true);
+    settings.set('skipSameLanguage.confidence', 0.5);
+    assert.strictEqual(isInTargetLanguage('Fetch by id', 'English'), true);
+  });
+
+  it('never skips when turned off', () => {
+    settings.set('skipSameLanguage.enabled', false);
+    assert.strictEqual(isInTargetLanguage('Get the list of users from the server', 'English'), false);
+  });
+});
+
+describe('isSameLanguage', () => {
+  it('compares names and codes, ignoring variants', () => {
+    assert.strictEqual(isSameLanguage('ja', 'Japanese'), true);
+    assert.strictEqual(isSameLanguage('Chinese (Simplified)', 'zh'), true);
+    assert.strictEqual(isSameLanguage('English', 'Vietnamese'), false);
+    assert.strictEqual(getLanguageName('vi'), 'Vietnamese');
+  });
+});
@@ -0,0 +1,13 @@
+import * as path from 'path';
+import Module = require('module');
+
+/**
+ * Resolve 'vscode' to the stand-in in ./vscode
+ * Import this first in tests of modules that read settings.
+ */
+const loader = Module as unknown as { _resolveFilename(request: string, ...rest: unknown[]): string };
+const resolveFilename = loader._resolveFilename;
+
+loader._resolveFilename = function (request: string, ...rest: unknown[]): string {
+  return request === 'vscode' ? path.join(__dirname, 'vscode.js') : resolveFilename.call(this, request, ...rest);
+};
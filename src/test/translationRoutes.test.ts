@@ -0,0 +1,38 @@
+import './setup';
+import * as assert from 'assert';
+import { afterEach, describe, it } from 'node:test';
+import { DocumentInfo } from '../folderConfig';
+import { findRoute } from '../translationRoutes';
+import { settings } from './vscode';
+
+describe('findRoute', () => {
+  afterEach(() => settings.clear());
+
+  it('returns the first matching rule, named after its position', () => {
+    settings.set('routes', [
+      { targetLanguage: 'Japanese', provider: 'google' },
+      { minLength: 20, provider: 'openai' },
+      { name: 'fallback', provider: 'ollama' }
+    ]);
+
+    assert.deepStrictEqual(findRoute({ text: 'Short', targetLanguage: 'ja' }), { targetLanguage: 'Japanese', provider: 'google', name: 'rule 1' });
+    assert.strictEqual(findRoute({ text: 'A comment long enough to count', targetLanguage: 'English' })?.name, 'rule 2');
+    assert.strictEqual(findRoute({ text: 'Short', targetLanguage: 'English' })?.name, 'fallback');
+  });
+
+  it('matches file conditions only for text from a file', () => {
+    settings.set('routes', [{ languageId: ['python', 'rust'], provider: 'ollama' }]);
+    const document = { languageId: 'rust' } as DocumentInfo; // Only the language ID is read
+
+    assert.strictEqual(findRoute({ text: 'Parse tokens', targetLanguage: 'English', document })?.name, 'rule 1');
+    assert.strictEqual(findRoute({ text: 'Parse tokens', targetLanguage: 'English', document: { ...document, languageId: 'go' } }), undefined);
+    assert.strictEqual(findRoute({ text: 'Parse tokens', targetLanguage: 'English' }), undefined);
+  });
+
+  it('matches the detected source language', () => {
+    settings.set('routes', [{ sourceLanguage: 'Japanese', provider: 'google' }]);
+
+    assert.strictEqual(findRoute({ text: 'ユーザーの一覧を取得する', targetLanguage: 'English' })?.name, 'rule 1');
+    assert.strictEqual(findRoute({ text: 'Get the list of users', targetLanguage: 'Vietnamese' }), undefined);
+  });
+});
@@ -0,0 +1,32 @@
+/**
+ * Stand-in for the parts of the VS Code API the tested modules use when they load and read
+ * settings (tests run in plain node, where the API does not exist)
+ * Tests set lmTranslator.* values in settings, keyed without the section.
+ */
+export const settings = new Map<string, unknown>();
+
+export const workspace = {
+  workspaceFolders: undefined,
+  getConfiguration: () => ({
+    get: <T>(key: string): T | undefined => settings.get(key) as T | undefined,
+    inspect: () => undefined
+  }),
+  getWorkspaceFolder: () => undefined
+};
+
+export class EventEmitter<T> {
+  private listeners: ((value: T) => void)[] = [];
+
+  public readonly event = (listener: (value: T) => void) => {
+    this.listeners.push(listener);
+    return { dispose: () => { this.listeners = this.listeners.filter(l => l !== listener); } };
+  };
+
+  public fire(value: T): void {
+    this.listeners.forEach(listener => listener(value));
+  }
+
+  public dispose(): void {
+    this.listeners = [];
+  }
+}
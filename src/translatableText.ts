@@ -0,0 +1,98 @@
+import { CommentToken, tokenize, getCommentContent } from './commentExtractor';
+import { parseDocblocks } from './docblockParser';
+import { CommentParagraph, TextSpan, findParagraphs, removeGeneratedLines } from './commentParagraphs';
+import { isStringTranslationEnabled, getStringText, isTranslatableString } from './stringLiterals';
+
+/**
+ * Translatable text
+ * Decides what gets translated in a document: docblock descriptions (tags and names left out),
+ * paragraphs of the other comments and, when enabled, string literals. Shared by inline
+ * decorations, the comment commands and the workspace translation job.
+ */
+
+/**
+ * A comment paragraph and the comment it belongs to
+ */
+export interface CommentLocation {
+  paragraph: CommentParagraph;
+  token: CommentToken;
+}
+
+/**
+ * A text to translate and the lines it was taken from
+ */
+export interface TranslatableText {
+  text: string;
+  lines: TextSpan[];
+}
+
+/**
+ * Find the translatable comment paragraphs of a document, in document order
+ * Lines added by bilingual mode are left out.
+ * @param targetLanguages Target languages of the document (bilingual mode labels its lines with them)
+ */
+export function findCommentLocations(text: string, languageId: string, targetLanguages: string[]): CommentLocation[] {
+  return locateComments(text, tokenize(text, languageId).filter(t => t.kind !== 'string'), languageId, targetLanguages);
+}
+
+/**
+ * Find everything inline decorations translate: comment paragraphs, then string literals
+ * @param targetLanguages Target languages of the document (bilingual mode labels its lines with them)
+ */
+export function findTranslatableTexts(text: string, languageId: string, targetLanguages: string[]): TranslatableText[] {
+  const tokens = tokenize(text, languageId);
+  const texts: TranslatableText[] = locateComments(text, tokens.filter(t => t.kind !== 'string'), languageId, targetLanguages)
+    .map(({ paragraph }) => ({ text: paragraph.text, lines: paragraph.lines }));
+
+  // String literals with natural-language text (optional)
+  if (isStringTranslationEnabled(languageId)) {
+    for (const literal of tokens.filter(t => t.kind === 'string')) {
+      const literalText = getStringText(getCommentContent(text, literal));
+      if (isTranslatableString(literalText)) {
+        texts.push({ text: literalText, lines: [{ start: literal.start, end: literal.end }] });
+      }
+    }
+  }
+
+  return texts;
+}
+
+/**
+ * Check if comment text is worth translating
+ * @param isDescription Text is a parsed docblock description, where names are already left out
+ */
+export function isTranslatableComment(text: string, isDescription: boolean = false): boolean {
+  // Must be at least 2 chars AND contain letters/CJK
+
+  // Ignore pure variable names (snake_case, camelCase, PascalCase) without spaces
+  // e.g. "table_id", "Zend_Exception", "camelCase"
+  // A docblock description of one word ("Constructor", "@param id Identifier") is prose.
+  if (!isDescription && /^[a-zA-Z0-9_\$]+$/.test(text)) {
+      return false;
+  }
+
+  return text.length >= 2 &&
+         /[a-zA-Z\u3040-\u309F\u30A0-\u30FF\u4E00-\u9FAF]/.test(text) &&
+         !/^[\s\*\-\/=]+$/.test(text); // Reject strings solely made of symbols
+}
+
+/**
+ * Docblock descriptions, then paragraphs of the other comments (adjacent lines joined)
+ */
+function locateComments(text: string, comments: CommentToken[], languageId: string, targetLanguages: string[]): CommentLocation[] {
+  const docblocks = parseDocblocks(text, comments, languageId);
+  const docTokens = new Set(docblocks.flatMap(block => block.tokens));
+
+  const paragraphs = removeGeneratedLines(text, comments, [
+    ...docblocks.flatMap(block => block.descriptions),
+    ...findParagraphs(text, comments.filter(c => !docTokens.has(c)))
+  ], targetLanguages);
+
+  return paragraphs
+    .map(paragraph => ({
+      paragraph,
+      token: comments.find(c => paragraph.start >= c.start && paragraph.start < c.end)!
+    }))
+    .filter(({ paragraph, token }) => isTranslatableComment(paragraph.text, docTokens.has(token)))
+    .sort((a, b) => a.paragraph.start - b.paragraph.start);
+}
@@ -0,0 +1,682 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { TranslationResult, TranslationProvider } from './types';
+import { getConfig } from './config';
+
+/**
+ * Everything that influences a translation - two requests share a cache entry only if all parts match
+ */
+export interface CacheKeyParts {
+  provider: TranslationProvider;
+  model: string;
+  promptTemplate: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+  text: string;
+}
+
+/**
+ * In-memory cache entry
+ * Pinned entries are exempt from TTL expiry and size eviction.
+ */
+interface CacheEntry {
+  result: TranslationResult;
+  lastAccess: number;
+  pinned?: boolean;
+  workspaces?: string[]; // Workspaces that used this entry (for workspace-scoped export)
+}
+
+/**
+ * Cache entry as exposed to the cache browser
+ */
+export interface CachedTranslation {
+  key: string;
+  result: TranslationResult;
+  lastAccess: number;
+  pinned: boolean;
+  workspaces: string[];
+}
+
+/**
+ * How imported entries resolve conflicts with existing ones
+ */
+export type ImportStrategy = 'newest' | 'existing' | 'overwrite';
+
+/**
+ * Outcome of importing one entry
+ */
+export type ImportOutcome = 'added' | 'replaced' | 'kept' | 'unchanged';
+
+/**
+ * One line of the append-only cache log
+ */
+type CacheLogRecord =
+  | { op: 'set'; key: string; result: TranslationResult; lastAccess: number; pinned?: boolean; workspaces?: string[] }
+  | { op: 'touch'; key: string; lastAccess: number; workspaces?: string[] }
+  | { op: 'delete'; key: string };
+
+/**
+ * Cache log file name inside the extension's globalStorageUri
+ */
+const CACHE_FILE = 'translation-cache.jsonl';
+
+/**
+ * Delay before pending log records are written to disk
+ */
+const FLUSH_DELAY_MS = 2000;
+
+/**
+ * globalState key of the previous (globalState based) shared cache, migrated once
+ */
+const GLOBAL_STATE_KEY = 'sharedTranslationCache';
+
+/**
+ * Per-provider globalState keys used before the cache was shared
+ */
+const LEGACY_STORAGE_KEYS = ['translationCache', 'openAICompatibleCache'];
+
+/**
+ * Identifier of the open workspace (workspace file or first folder), if any
+ */
+export function getWorkspaceId(): string | undefined {
+  return vscode.workspace.workspaceFile?.toString() ?? vscode.workspace.workspaceFolders?.[0]?.uri.toString();
+}
+
+/**
+ * Shared translation cache used by every ITranslationService
+ * Entries are keyed on provider, model, prompt template, source and target language,
+ * and cacheTTL / maxCacheSize apply the same way to all providers.
+ *
+ * Storage is an append-only JSONL log under globalStorageUri:
+ * - new entries, deletions and access times are appended in the background on a debounce
+ * - a torn last line (crash during append) is skipped on load
+ * - the log is compacted into a fresh snapshot (write temp file, then rename) when it grows too large;
+ *   every VS Code window appends to the same log, so entries other windows added are re-read and kept
+ * Eviction is least-recently-used: the Map is kept in access order.
+ */
+export class TranslationCache {
+  private static instance: TranslationCache;
+  private entries: Map<string, CacheEntry> = new Map();
+  private filePath: string | undefined;
+  private logLineCount = 0;
+  private pendingRecords: CacheLogRecord[] = [];
+  private pendingTouches: Set<string> = new Set();
+  private flushTimer: NodeJS.Timeout | undefined;
+  private writeChain: Promise<void> = Promise.resolve();
+  private deletedKeys: Set<string> = new Set(); // Deleted since the last compaction, not to be merged back from disk
+  private loggedKeys: Set<string> = new Set(); // Keys last seen in (or written to) the log; gone from it means deleted by another window
+  private readonly _onDidChange = new vscode.EventEmitter<void>();
+  public readonly onDidChange = this._onDidChange.event;
+
+  private constructor() {}
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): TranslationCache {
+    if (!TranslationCache.instance) {
+      TranslationCache.instance = new TranslationCache();
+    }
+    return TranslationCache.instance;
+  }
+
+  /**
+   * Build the cache key for a translation request
+   */
+  public static buildKey(parts: CacheKeyParts): string {
+    const templateHash = crypto.createHash('sha1').update(parts.promptTemplate).digest('hex').slice(0, 12);
+    return JSON.stringify([
+      parts.provider,
+      parts.model,
+      templateHash,
+      parts.sourceLanguage,
+      parts.targetLanguage,
+      parts.text
+    ]);
+  }
+
+  /**
+   * Whether a cache key belongs to a result: same provider (when known), target language and source text
+   */
+  public static keyMatchesResult(key: string, result: TranslationResult): boolean {
+    let parts: unknown;
+    try {
+      parts = JSON.parse(key);
+    } catch (e) {
+      return false;
+    }
+    return Array.isArray(parts) && parts.length === 6 &&
+      (!result.provider || parts[0] === result.provider) &&
+      parts[4] === result.targetLanguage &&
+      parts[5] === result.originalText;
+  }
+
+  /**
+   * Initialize with extension context: load the cache log and migrate older storage
+   */
+  public initialize(context: vscode.ExtensionContext): void {
+    const storageDir = context.globalStorageUri.fsPath;
+    fs.mkdirSync(storageDir, { recursive: true });
+    this.filePath = path.join(storageDir, CACHE_FILE);
+
+    this.loadFromDisk();
+    this.migrateFromGlobalState(context);
+    this.cleanCache();
+
+    // Old per-provider caches were keyed on text and language only - they cannot be trusted
+    for (const key of LEGACY_STORAGE_KEYS) {
+      if (context.globalState.get(key) !== undefined) {
+        context.globalState.update(key, undefined);
+      }
+    }
+  }
+
+  /**
+   * Get a cached result if present and not expired
+   */
+  public get(parts: CacheKeyParts): TranslationResult | undefined {
+    const key = TranslationCache.buildKey(parts);
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    if (!entry.pinned && Date.now() - entry.result.timestamp >= getConfig().cacheTTL) {
+      this.delete(key);
+      return undefined;
+    }
+
+    // Move to the most-recently-used end
+    entry.lastAccess = Date.now();
+    this.addWorkspace(entry);
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.pendingTouches.add(key);
+    this.scheduleFlush();
+
+    return entry.result;
+  }
+
+  /**
+   * Store a result
+   */
+  public set(parts: CacheKeyParts, result: TranslationResult): void {
+    const key = TranslationCache.buildKey(parts);
+    const existing = this.entries.get(key);
+    const entry: CacheEntry = { result, lastAccess: Date.now(), pinned: existing?.pinned, workspaces: existing?.workspaces };
+    this.addWorkspace(entry);
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.recordSet(key, entry);
+
+    this.evictOverflow();
+    this.scheduleFlush();
+    this._onDidChange.fire();
+  }
+
+  /**
+   * Look up an entry by its key without touching LRU order or TTL
+   */
+  public getByKey(key: string): TranslationResult | undefined {
+    return this.entries.get(key)?.result;
+  }
+
+  /**
+   * List all entries, most recently used first
+   */
+  public list(): CachedTranslation[] {
+    return Array.from(this.entries.entries())
+      .reverse()
+      .map(([key, entry]) => ({
+        key,
+        result: entry.result,
+        lastAccess: entry.lastAccess,
+        pinned: !!entry.pinned,
+        workspaces: entry.workspaces || []
+      }));
+  }
+
+  /**
+   * Import one entry (from a shared cache file) using the given conflict strategy
+   * Entries that would already be expired get a fresh timestamp, so an old export does not vanish
+   * on the first lookup; conflicts are still decided on the original timestamp.
+   */
+  public importEntry(key: string, result: TranslationResult, pinned: boolean, strategy: ImportStrategy): ImportOutcome {
+    const existing = this.entries.get(key);
+
+    if (existing && existing.result.translatedText === result.translatedText) {
+      return 'unchanged';
+    }
+    if (existing) {
+      const replace = strategy === 'overwrite' ||
+        (strategy === 'newest' && result.timestamp > existing.result.timestamp);
+      if (!replace) {
+        return 'kept';
+      }
+    }
+
+    const now = Date.now();
+    const timestamp = now - result.timestamp >= getConfig().cacheTTL ? now : result.timestamp;
+    const entry: CacheEntry = {
+      result: { ...result, timestamp },
+      lastAccess: existing?.lastAccess ?? timestamp,
+      pinned: pinned || existing?.pinned,
+      workspaces: existing?.workspaces
+    };
+    this.entries.set(key, entry);
+    this.recordSet(key, entry);
+    return existing ? 'replaced' : 'added';
+  }
+
+  /**
+   * Finish a bulk import: enforce the size limit, persist and notify once
+   */
+  public completeImport(): void {
+    this.evictOverflow();
+    this.scheduleFlush();
+    this._onDidChange.fire();
+  }
+
+  /**
+   * Replace the translated text of an entry (manual correction)
+   */
+  public updateTranslation(key: string, translatedText: string): boolean {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return false;
+    }
+    entry.result = { ...entry.result, translatedText, timestamp: Date.now() };
+    this.recordSet(key, entry);
+    this.scheduleFlush();
+    this._onDidChange.fire();
+    return true;
+  }
+
+  /**
+   * Pin or unpin an entry
+   */
+  public setPinned(key: string, pinned: boolean): boolean {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return false;
+    }
+    entry.pinned = pinned;
+    this.recordSet(key, entry);
+    this.scheduleFlush();
+    this._onDidChange.fire();
+    return true;
+  }
+
+  /**
+   * Delete a single entry
+   */
+  public remove(key: string): boolean {
+    if (!this.entries.has(key)) {
+      return false;
+    }
+    this.delete(key);
+    this.scheduleFlush();
+    this._onDidChange.fire();
+    return true;
+  }
+
+  /**
+   * Clear all entries, or only those of one provider
+   */
+  public clear(provider?: TranslationProvider): void {
+    if (provider) {
+      for (const [key, entry] of this.entries) {
+        if (entry.result.provider === provider) {
+          this.entries.delete(key);
+        }
+      }
+    } else {
+      this.entries.clear();
+    }
+    // Also drop what other windows logged for the cleared provider(s)
+    this.compact(entry => !provider || entry.result.provider === provider);
+    this._onDidChange.fire();
+  }
+
+  /**
+   * Get cache size (number of entries)
+   */
+  public getSize(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Get cache statistics
+   */
+  public getStats(): { size: number; maxSize: number; ttlMinutes: number } {
+    const config = getConfig();
+    return {
+      size: this.entries.size,
+      maxSize: config.maxCacheSize,
+      ttlMinutes: config.cacheTTL / 60000
+    };
+  }
+
+  /**
+   * Clean expired and excess cache entries
+   */
+  public cleanCache(): void {
+    const now = Date.now();
+    const ttl = getConfig().cacheTTL;
+
+    // Remove expired entries
+    for (const [key, entry] of this.entries) {
+      if (!entry.pinned && now - entry.result.timestamp > ttl) {
+        this.delete(key);
+      }
+    }
+
+    this.evictOverflow();
+    this.scheduleFlush();
+  }
+
+  /**
+   * Write pending records and wait for all writes to finish (used on deactivate)
+   */
+  public dispose(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+    this.flush();
+    return this.writeChain;
+  }
+
+  /**
+   * Drop least-recently-used entries beyond maxCacheSize
+   */
+  private evictOverflow(): void {
+    const maxSize = getConfig().maxCacheSize;
+    if (this.entries.size <= maxSize) {
+      return;
+    }
+
+    // Map iteration order is access order, so the first keys are the least recently used
+    const keysToDelete = Array.from(this.entries.entries())
+      .filter(([, entry]) => !entry.pinned)
+      .slice(0, this.entries.size - maxSize)
+      .map(([key]) => key);
+    for (const key of keysToDelete) {
+      this.delete(key);
+    }
+  }
+
+  private recordSet(key: string, entry: CacheEntry): void {
+    this.pendingRecords.push(this.toSetRecord(key, entry));
+    this.pendingTouches.delete(key);
+  }
+
+  private toSetRecord(key: string, entry: CacheEntry): CacheLogRecord {
+    return {
+      op: 'set',
+      key,
+      result: entry.result,
+      lastAccess: entry.lastAccess,
+      pinned: entry.pinned,
+      workspaces: entry.workspaces
+    };
+  }
+
+  private addWorkspace(entry: CacheEntry): void {
+    const workspaceId = getWorkspaceId();
+    if (workspaceId && !entry.workspaces?.includes(workspaceId)) {
+      entry.workspaces = [...(entry.workspaces || []), workspaceId];
+    }
+  }
+
+  private delete(key: string): void {
+    if (this.entries.delete(key)) {
+      this.pendingRecords.push({ op: 'delete', key });
+      this.pendingTouches.delete(key);
+      this.deletedKeys.add(key);
+    }
+  }
+
+  /**
+   * Replay the cache log into memory
+   */
+  private loadFromDisk(): void {
+    if (!this.filePath || !fs.existsSync(this.filePath)) {
+      return;
+    }
+
+    const { entries, lineCount, skipped } = TranslationCache.parseLog(fs.readFileSync(this.filePath, 'utf8'));
+
+    // Rebuild the Map in access order so eviction stays LRU across reloads
+    this.entries = TranslationCache.sortByAccess(entries);
+    this.loggedKeys = new Set(entries.keys());
+    this.logLineCount = lineCount;
+
+    if (skipped > 0) {
+      console.warn(`LM Translator: Skipped ${skipped} corrupt cache log lines`);
+      this.compact();
+    }
+  }
+
+  /**
+   * Replay log lines into entries
+   * @returns The entries, the number of lines and the number of corrupt lines skipped
+   */
+  private static parseLog(content: string): { entries: Map<string, CacheEntry>; lineCount: number; skipped: number } {
+    const loaded: Map<string, CacheEntry> = new Map();
+    let lineCount = 0;
+    let skipped = 0;
+
+    for (const line of content.split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      lineCount++;
+
+      let record: CacheLogRecord;
+      try {
+        record = JSON.parse(line);
+      } catch (e) {
+        // Torn write from a crash - everything before it is still valid
+        skipped++;
+        continue;
+      }
+
+      if (record.op === 'set') {
+        loaded.set(record.key, {
+          result: record.result,
+          lastAccess: record.lastAccess,
+          pinned: record.pinned,
+          workspaces: record.workspaces
+        });
+      } else if (record.op === 'touch') {
+        const entry = loaded.get(record.key);
+        if (entry) {
+          entry.lastAccess = record.lastAccess;
+          entry.workspaces = record.workspaces ?? entry.workspaces;
+        }
+      } else if (record.op === 'delete') {
+        loaded.delete(record.key);
+      }
+    }
+
+    return { entries: loaded, lineCount, skipped };
+  }
+
+  private static sortByAccess(entries: Map<string, CacheEntry>): Map<string, CacheEntry> {
+    return new Map(Array.from(entries.entries()).sort((a, b) => a[1].lastAccess - b[1].lastAccess));
+  }
+
+  /**
+   * Apply what other windows logged since this one last read the log
+   * Entries they added are merged in and entries that were in the log but are gone from it (deleted
+   * or cleared by another window) are removed. Entries this window deleted (or cleared) since the
+   * last compaction stay deleted; for entries both have, this window's version wins with the later
+   * access time.
+   */
+  private mergeFromDisk(
+    onDisk: Map<string, CacheEntry>,
+    deletedKeys: Set<string>,
+    dropFromDisk?: (entry: CacheEntry) => boolean
+  ): void {
+    const now = Date.now();
+    const ttl = getConfig().cacheTTL;
+    let added = 0;
+    let removed = 0;
+
+    for (const key of Array.from(this.entries.keys())) {
+      if (this.loggedKeys.has(key) && !onDisk.has(key)) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+
+    for (const [key, diskEntry] of onDisk) {
+      const entry = this.entries.get(key);
+      if (entry) {
+        entry.lastAccess = Math.max(entry.lastAccess, diskEntry.lastAccess);
+      } else if (!deletedKeys.has(key) && !this.deletedKeys.has(key) && !dropFromDisk?.(diskEntry) &&
+          (diskEntry.pinned || now - diskEntry.result.timestamp < ttl)) {
+        this.entries.set(key, diskEntry);
+        added++;
+      }
+    }
+
+    if (added > 0) {
+      this.entries = TranslationCache.sortByAccess(this.entries);
+      this.evictOverflow();
+    }
+    if (added > 0 || removed > 0) {
+      this._onDidChange.fire();
+    }
+  }
+
+  /**
+   * Import the cache previously kept in globalState, then remove it
+   */
+  private migrateFromGlobalState(context: vscode.ExtensionContext): void {
+    const stored = context.globalState.get<[string, TranslationResult][]>(GLOBAL_STATE_KEY);
+    if (!stored) {
+      return;
+    }
+
+    for (const [key, result] of stored) {
+      if (!this.entries.has(key)) {
+        this.entries.set(key, { result, lastAccess: result.timestamp });
+      }
+    }
+    context.globalState.update(GLOBAL_STATE_KEY, undefined);
+    this.compact();
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer || (this.pendingRecords.length === 0 && this.pendingTouches.size === 0)) {
+      return;
+    }
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = undefined;
+      this.flush();
+    }, FLUSH_DELAY_MS);
+  }
+
+  /**
+   * Serialize pending records and access times into log lines
+   */
+  private takePendingLines(): string {
+    const records = this.pendingRecords;
+    for (const record of records) {
+      if (record.op === 'set') {
+        this.loggedKeys.add(record.key);
+      } else if (record.op === 'delete') {
+        this.loggedKeys.delete(record.key);
+      }
+    }
+    for (const key of this.pendingTouches) {
+      const entry = this.entries.get(key);
+      if (entry) {
+        records.push({ op: 'touch', key, lastAccess: entry.lastAccess, workspaces: entry.workspaces });
+      }
+    }
+    this.pendingRecords = [];
+    this.pendingTouches.clear();
+
+    this.logLineCount += records.length;
+    return records.map(record => JSON.stringify(record) + '\n').join('');
+  }
+
+  /**
+   * Append pending records in the background, compacting when the log has grown too much
+   */
+  private flush(): void {
+    // Mostly deletes and touches - cheaper to rewrite than to keep appending
+    if (this.logLineCount + this.pendingRecords.length > this.entries.size * 2 + 1000) {
+      this.compact();
+      return;
+    }
+
+    const lines = this.takePendingLines();
+    const filePath = this.filePath;
+    if (!filePath || !lines) {
+      return;
+    }
+
+    this.writeChain = this.writeChain
+      .then(() => fs.promises.appendFile(filePath, lines, 'utf8'))
+      .catch(e => console.error('LM Translator: Failed to write translation cache', e));
+  }
+
+  /**
+   * Rewrite the log as a snapshot of the current entries, merged with the log on disk
+   * Written to a temp file of this window and renamed, so a crash or another window compacting at
+   * the same time leaves either the old or a new file intact.
+   * @param dropFromDisk Entries only found on disk that are discarded instead of merged (clear)
+   */
+  private compact(dropFromDisk?: (entry: CacheEntry) => boolean): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+    // Entries set since the last flush are not in the log yet: their absence is no delete
+    for (const record of this.pendingRecords) {
+      if (record.op === 'set') {
+        this.loggedKeys.delete(record.key);
+      }
+    }
+    this.pendingRecords = [];
+    this.pendingTouches.clear();
+
+    const filePath = this.filePath;
+    if (!filePath) {
+      return;
+    }
+
+    const deletedKeys = this.deletedKeys;
+    this.deletedKeys = new Set();
+
+    const tempPath = `${filePath}.${process.pid}-${crypto.randomBytes(4).toString('hex')}.tmp`;
+    this.writeChain = this.writeChain
+      .then(async () => {
+        // Other windows share the log: apply what they appended since this window read it
+        const content = await fs.promises.readFile(filePath, 'utf8').catch(() => undefined);
+        if (content !== undefined) {
+          this.mergeFromDisk(TranslationCache.parseLog(content).entries, deletedKeys, dropFromDisk);
+        }
+
+        const snapshot = Array.from(this.entries.entries())
+          .map(([key, entry]) => JSON.stringify(this.toSetRecord(key, entry)) + '\n')
+          .join('');
+        this.logLineCount = this.entries.size;
+        this.loggedKeys = new Set(this.entries.keys());
+
+        await fs.promises.writeFile(tempPath, snapshot, 'utf8');
+        await fs.promises.rename(tempPath, filePath);
+      })
+      .catch(e => {
+        console.error('LM Translator: Failed to compact translation cache', e);
+        fs.promises.unlink(tempPath).catch(() => undefined);
+      });
+  }
+}
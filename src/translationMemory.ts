@@ -0,0 +1,186 @@
+import * as vscode from 'vscode';
+import { TranslationResult } from './types';
+import { isRecord } from './folderConfig';
+
+/**
+ * Approved source→target pair stored in .lmtranslator/memory.json
+ */
+export interface MemoryEntry {
+  source: string;
+  target: string;
+  targetLanguage: string;
+  approvedAt?: string;
+}
+
+/**
+ * Layout of .lmtranslator/memory.json
+ */
+interface MemoryFile {
+  version: number;
+  entries: MemoryEntry[];
+}
+
+/**
+ * Memory file path relative to each workspace folder
+ */
+export const MEMORY_FILE = '.lmtranslator/memory.json';
+
+const MEMORY_VERSION = 1;
+
+/**
+ * Workspace translation memory
+ * A versionable file of approved translations, checked before any provider is called.
+ * One file per workspace folder; all folders are merged for lookups.
+ */
+export class TranslationMemory {
+  private static instance: TranslationMemory;
+  private entries: Map<string, MemoryEntry> = new Map();
+  private readonly _onDidChange = new vscode.EventEmitter<void>();
+  public readonly onDidChange = this._onDidChange.event;
+
+  private constructor() {}
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): TranslationMemory {
+    if (!TranslationMemory.instance) {
+      TranslationMemory.instance = new TranslationMemory();
+    }
+    return TranslationMemory.instance;
+  }
+
+  /**
+   * Load memory files and watch them for changes (git pull, manual edits)
+   */
+  public initialize(context: vscode.ExtensionContext): void {
+    const watcher = vscode.workspace.createFileSystemWatcher(`**/${MEMORY_FILE}`);
+    watcher.onDidChange(() => this.reload());
+    watcher.onDidCreate(() => this.reload());
+    watcher.onDidDelete(() => this.reload());
+
+    context.subscriptions.push(
+      watcher,
+      vscode.workspace.onDidChangeWorkspaceFolders(() => this.reload())
+    );
+
+    this.reload();
+  }
+
+  /**
+   * Build the lookup key - languages compare case-insensitively, source text exactly (trimmed)
+   */
+  private static buildKey(source: string, targetLanguage: string): string {
+    return `${targetLanguage.trim().toLowerCase()}\u0000${source.trim()}`;
+  }
+
+  /**
+   * Find an approved translation
+   */
+  public lookup(text: string, targetLanguage: string): TranslationResult | undefined {
+    const entry = this.entries.get(TranslationMemory.buildKey(text, targetLanguage));
+    if (!entry) {
+      return undefined;
+    }
+    return {
+      originalText: text,
+      translatedText: entry.target,
+      targetLanguage,
+      timestamp: entry.approvedAt ? Date.parse(entry.approvedAt) || Date.now() : Date.now(),
+      fromMemory: true
+    };
+  }
+
+  /**
+   * Number of approved entries across all workspace folders
+   */
+  public getSize(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Add or update an approved translation in a workspace folder's memory file
+   */
+  public async promote(folder: vscode.WorkspaceFolder, result: TranslationResult): Promise<void> {
+    const uri = vscode.Uri.joinPath(folder.uri, MEMORY_FILE);
+    // Never overwrite a file we cannot parse (e.g. unresolved merge conflict)
+    const file = await this.readFile(uri, true) ?? { version: MEMORY_VERSION, entries: [] };
+
+    const key = TranslationMemory.buildKey(result.originalText, result.targetLanguage);
+    const entry: MemoryEntry = {
+      source: result.originalText.trim(),
+      target: result.translatedText,
+      targetLanguage: result.targetLanguage,
+      approvedAt: new Date().toISOString()
+    };
+
+    const index = file.entries.findIndex(e => TranslationMemory.buildKey(e.source, e.targetLanguage) === key);
+    if (index === -1) {
+      file.entries.push(entry);
+    } else {
+      file.entries[index] = entry;
+    }
+
+    // Stable order keeps diffs small in version control
+    file.entries.sort((a, b) =>
+      a.targetLanguage.localeCompare(b.targetLanguage) || a.source.localeCompare(b.source)
+    );
+
+    await vscode.workspace.fs.writeFile(uri, Buffer.from(JSON.stringify(file, null, 2) + '\n', 'utf8'));
+    await this.reload();
+  }
+
+  /**
+   * Re-read the memory files of all workspace folders
+   */
+  public async reload(): Promise<void> {
+    const entries: Map<string, MemoryEntry> = new Map();
+
+    for (const folder of vscode.workspace.workspaceFolders || []) {
+      const file = await this.readFile(vscode.Uri.joinPath(folder.uri, MEMORY_FILE));
+      for (const entry of file?.entries || []) {
+        if (this.isValidEntry(entry)) {
+          entries.set(TranslationMemory.buildKey(entry.source, entry.targetLanguage), entry);
+        }
+      }
+    }
+
+    this.entries = entries;
+    this._onDidChange.fire();
+  }
+
+  /**
+   * Read a memory file
+   * @param strict Throw instead of ignoring a file that is not valid JSON
+   */
+  private async readFile(uri: vscode.Uri, strict: boolean = false): Promise<MemoryFile | undefined> {
+    let content: string;
+    try {
+      content = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+    } catch (e) {
+      return undefined; // No memory file in this folder
+    }
+
+    try {
+      const parsed = JSON.parse(content);
+      return {
+        version: parsed.version ?? MEMORY_VERSION,
+        entries: Array.isArray(parsed.entries) ? parsed.entries : []
+      };
+    } catch (e) {
+      if (strict) {
+        throw new Error(`${vscode.workspace.asRelativePath(uri)} is not valid JSON`);
+      }
+      // Leave a broken file alone (e.g. merge conflict markers) - just ignore it until fixed
+      console.error(`LM Translator: Invalid translation memory file ${uri.fsPath}`, e);
+      return undefined;
+    }
+  }
+
+  private isValidEntry(entry: unknown): entry is MemoryEntry {
+    return isRecord(entry) &&
+      typeof entry.source === 'string' && entry.source.trim().length > 0 &&
+      typeof entry.target === 'string' &&
+      typeof entry.targetLanguage === 'string';
+  }
+}
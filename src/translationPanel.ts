@@ -1,6 +1,8 @@
 import * as vscode from 'vscode';
-import { LMStudioService } from './lmStudioService';
-import { getConfig } from './config';
+import { TranslationServiceManager } from './translationService';
+import { getConfig, getTargetLanguages } from './config';
+import { TranslationResult } from './types';
+import { getLanguageName } from './languageDetection';
 
 /**
  * Translation Panel - Webview for manual translation
@@ -66,12 +68,37 @@ export class TranslationPanel {
 
   /**
    * Set translation result in panel
+   * @param others Translations into the other target languages, shown next to the primary one
    */
-  public setTranslation(original: string, translated: string): void {
+  public setTranslation(result: TranslationResult, others: TranslationResult[] = []): void {
     this._panel.webview.postMessage({
       command: 'setResult',
+      original: result.originalText,
+      translated: result.translatedText,
+      language: result.targetLanguage,
+      fromMemory: !!result.fromMemory,
+      detectedLanguage: result.detectedLanguage && getLanguageName(result.detectedLanguage),
+      glossaryWarnings: [
+        ...result.glossaryWarnings || [],
+        ...others.flatMap(other => (other.glossaryWarnings || []).map(warning => `${other.targetLanguage}: ${warning}`))
+      ],
+      others: others.map(other => ({
+        language: other.targetLanguage,
+        translated: other.translatedText,
+        fromMemory: !!other.fromMemory,
+        sameLanguage: !!other.sameLanguage
+      }))
+    });
+  }
+
+  /**
+   * Show a partial translation while it is still being generated
+   */
+  public setPartialResult(original: string, partial: string): void {
+    this._panel.webview.postMessage({
+      command: 'setPartialResult',
       original,
-      translated
+      translated: partial
     });
   }
 
@@ -89,13 +116,17 @@ export class TranslationPanel {
    * Translate text and send result to panel
    */
   private async _translateText(text: string): Promise<void> {
-    const service = LMStudioService.getInstance();
+    const service = TranslationServiceManager.getInstance();
 
     this._panel.webview.postMessage({ command: 'setLoading', loading: true });
 
     try {
-      const result = await service.translate(text);
-      this.setTranslation(result.originalText, result.translatedText);
+      const [result, ...others] = await service.translateStreamAll(
+        text,
+        (partial) => this.setPartialResult(text, partial),
+        { priority: 'interactive' }
+      );
+      this.setTranslation(result, others);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Translation failed';
       this.setError(errorMessage);
@@ -111,7 +142,8 @@ export class TranslationPanel {
     const config = getConfig();
     this._panel.webview.postMessage({
       command: 'setConfig',
-      config
+      config,
+      targetLanguages: getTargetLanguages()
     });
   }
 
@@ -257,6 +289,23 @@ export class TranslationPanel {
       color: var(--error);
     }
 
+    .translations {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 16px;
+    }
+
+    .translations .panel {
+      flex: 1 1 240px;
+    }
+
+    .warnings {
+      font-size: 0.85em;
+      color: var(--vscode-editorWarning-foreground);
+      margin-top: 4px;
+      white-space: pre-wrap;
+    }
+
     .loading {
       display: inline-block;
       width: 16px;
@@ -305,12 +354,15 @@ export class TranslationPanel {
         <button class="btn-secondary" id="copy-btn">Copy Result</button>
       </div>
 
-      <div class="panel">
-        <label for="output">Translation</label>
-        <textarea id="output" readonly placeholder="Translation will appear here..."></textarea>
+      <div class="translations" id="translations">
+        <div class="panel">
+          <label for="output" id="output-label">Translation</label>
+          <textarea id="output" readonly placeholder="Translation will appear here..."></textarea>
+        </div>
       </div>
 
       <div class="status" id="status"></div>
+      <div class="warnings" id="glossary-warnings"></div>
     </div>
   </div>
 
@@ -319,18 +371,39 @@ export class TranslationPanel {
 
     const inputEl = document.getElementById('input');
     const outputEl = document.getElementById('output');
+    const outputLabelEl = document.getElementById('output-label');
+    const translationsEl = document.getElementById('translations');
     const translateBtn = document.getElementById('translate-btn');
     const btnText = document.getElementById('btn-text');
     const btnLoading = document.getElementById('btn-loading');
     const clearBtn = document.getElementById('clear-btn');
     const copyBtn = document.getElementById('copy-btn');
     const statusEl = document.getElementById('status');
+    const warningsEl = document.getElementById('glossary-warnings');
     const targetLangEl = document.getElementById('target-lang');
     const apiUrlEl = document.getElementById('api-url');
 
     // Request config on load
     vscode.postMessage({ command: 'getConfig' });
 
+    // Translations into the other target languages, next to the primary one
+    function renderOthers(others) {
+      while (translationsEl.children.length > 1) {
+        translationsEl.lastElementChild.remove();
+      }
+      for (const other of others) {
+        const panel = document.createElement('div');
+        panel.className = 'panel';
+        const label = document.createElement('label');
+        label.textContent = other.language + (other.fromMemory ? ' ✓' : '') + (other.sameLanguage ? ' (already in this language)' : '');
+        const textarea = document.createElement('textarea');
+        textarea.readOnly = true;
+        textarea.value = other.translated;
+        panel.append(label, textarea);
+        translationsEl.append(panel);
+      }
+    }
+
     translateBtn.addEventListener('click', () => {
       const text = inputEl.value.trim();
       if (!text) {
@@ -345,6 +418,8 @@ export class TranslationPanel {
       inputEl.value = '';
       outputEl.value = '';
       statusEl.textContent = '';
+      outputLabelEl.textContent = 'Translation';
+      renderOthers([]);
     });
 
     copyBtn.addEventListener('click', () => {
@@ -370,11 +445,24 @@ export class TranslationPanel {
         case 'setResult':
           inputEl.value = message.original;
           outputEl.value = message.translated;
-          statusEl.textContent = 'Translation completed';
+          outputLabelEl.textContent = message.others.length > 0 ? message.language : 'Translation';
+          renderOthers(message.others);
+          statusEl.textContent = message.fromMemory
+            ? '✓ Approved translation (translation memory)'
+            : 'Translation completed' + (message.detectedLanguage ? ' (from ' + message.detectedLanguage + ')' : '');
           statusEl.className = 'status';
+          warningsEl.textContent = (message.glossaryWarnings || []).map(w => '⚠️ Glossary: ' + w).join('\n');
+          break;
+
+        case 'setPartialResult':
+          warningsEl.textContent = '';
+          inputEl.value = message.original;
+          outputEl.value = message.translated;
+          outputEl.scrollTop = outputEl.scrollHeight;
           break;
 
         case 'setError':
+          warningsEl.textContent = '';
           statusEl.textContent = message.message;
           statusEl.className = 'status error';
           break;
@@ -386,11 +474,12 @@ export class TranslationPanel {
           if (message.loading) {
             statusEl.textContent = 'Translating...';
             statusEl.className = 'status';
+            renderOthers([]);
           }
           break;
 
         case 'setConfig':
-          targetLangEl.textContent = message.config.targetLanguage;
+          targetLangEl.textContent = message.targetLanguages.join(', ');
           apiUrlEl.textContent = new URL(message.config.apiUrl).host;
           break;
       }
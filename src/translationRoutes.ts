@@ -0,0 +1,79 @@
+import { TranslationRoute } from './types';
+import { getConfig, getSourceLanguage } from './config';
+import { detectLanguage, isSameLanguage } from './languageDetection';
+import { DocumentInfo, matchesGlob } from './folderConfig';
+
+/**
+ * Translation routing
+ * lmTranslator.routes sends some translations to another provider, model or prompt template,
+ * e.g. Japanese → Vietnamese to Google Translate and code-heavy files to the local model.
+ * Rules are checked in order; without a matching rule the regular settings apply.
+ */
+
+/**
+ * What a route is chosen on
+ */
+export interface RouteRequest {
+  text: string;
+  targetLanguage: string;
+  document?: DocumentInfo; // File the text comes from (language ID and glob conditions)
+}
+
+/**
+ * The first rule matching a request, named after its position when it has no name
+ */
+export function findRoute(request: RouteRequest): TranslationRoute | undefined {
+  const routes = getConfig().routes;
+
+  // Detecting the source language is only worth it when a rule asks for it
+  let source: string | undefined;
+  let sourceDetected = false;
+  const getSource = () => {
+    if (!sourceDetected) {
+      source = getSourceLanguage() || detectLanguage(request.text)?.language;
+      sourceDetected = true;
+    }
+    return source;
+  };
+
+  for (let i = 0; i < routes.length; i++) {
+    if (matchesRoute(routes[i], request, getSource)) {
+      return { ...routes[i], name: routes[i].name || `rule ${i + 1}` };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Whether every condition of a rule holds
+ * Conditions on the file never match text without one (e.g. the translation panel).
+ */
+function matchesRoute(route: TranslationRoute, request: RouteRequest, getSource: () => string | undefined): boolean {
+  const { text, targetLanguage, document } = request;
+
+  if (route.targetLanguage && !isSameLanguage(route.targetLanguage, targetLanguage)) {
+    return false;
+  }
+  if (route.minLength !== undefined && text.length < route.minLength) {
+    return false;
+  }
+  if (route.maxLength !== undefined && text.length > route.maxLength) {
+    return false;
+  }
+  if (route.languageId) {
+    const languageIds = Array.isArray(route.languageId) ? route.languageId : [route.languageId];
+    if (!document || !languageIds.includes(document.languageId)) {
+      return false;
+    }
+  }
+  if (route.glob && (!document || !matchesGlob(route.glob, document))) {
+    return false;
+  }
+  if (route.sourceLanguage) {
+    const source = getSource();
+    if (!source || !isSameLanguage(route.sourceLanguage, source)) {
+      return false;
+    }
+  }
+  return true;
+}
@@ -0,0 +1,184 @@
+import * as vscode from 'vscode';
+import { getConfig } from './config';
+import { DocumentInfo } from './folderConfig';
+
+/**
+ * Request priority - interactive requests (hover, panel, commands) run before background work (decorations)
+ */
+export type TranslationPriority = 'interactive' | 'background';
+
+/**
+ * Options accepted by every TranslationServiceManager entry point
+ */
+export interface TranslationRequestOptions {
+  priority?: TranslationPriority;
+  token?: vscode.CancellationToken;
+  document?: DocumentInfo; // File the text comes from, for routing rules (lmTranslator.routes)
+}
+
+const PRIORITY_ORDER: Record<TranslationPriority, number> = {
+  interactive: 0,
+  background: 1
+};
+
+/**
+ * A caller waiting for a task result
+ */
+interface Waiter<T> {
+  resolve: (value: T) => void;
+  reject: (reason: unknown) => void;
+  cancelListener?: vscode.Disposable;
+}
+
+/**
+ * A unit of work, shared by every caller that asked for the same key
+ */
+interface Task<T> {
+  key: string | undefined;
+  priority: number;
+  sequence: number;
+  run: () => Promise<T>;
+  waiters: Waiter<T>[];
+  started: boolean;
+}
+
+/**
+ * Central request scheduler in front of the translation services
+ * - Limits the number of concurrent provider requests (lmTranslator.maxConcurrentRequests)
+ * - Runs interactive requests before background ones, FIFO within a priority
+ * - Merges identical requests (same key) into one, whether pending or in flight
+ * - Drops pending work once every caller's CancellationToken has fired
+ */
+export class TranslationScheduler {
+  private queue: Task<unknown>[] = [];
+  private tasksByKey: Map<string, Task<unknown>> = new Map();
+  private running = 0;
+  private sequence = 0;
+
+  /**
+   * Schedule work and wait for its result
+   * @param key Merge key (undefined = never merged)
+   * @param run Work to execute when a slot is free
+   * @param options Priority and cancellation token of this caller
+   */
+  public schedule<T>(key: string | undefined, run: () => Promise<T>, options: TranslationRequestOptions = {}): Promise<T> {
+    const token = options.token;
+    if (token?.isCancellationRequested) {
+      return Promise.reject(new vscode.CancellationError());
+    }
+
+    const priority = PRIORITY_ORDER[options.priority ?? 'interactive'];
+    let task: Task<unknown> | undefined = key !== undefined ? this.tasksByKey.get(key) : undefined;
+
+    if (task) {
+      // Upgrade merged pending work if an interactive caller joins
+      if (!task.started && priority < task.priority) {
+        task.priority = priority;
+      }
+    } else {
+      task = {
+        key,
+        priority,
+        sequence: this.sequence++,
+        run,
+        waiters: [],
+        started: false
+      };
+      this.queue.push(task);
+      if (key !== undefined) {
+        this.tasksByKey.set(key, task);
+      }
+    }
+
+    const promise = this.addWaiter(task, token);
+    this.pump();
+    // Callers merged under one key ask for the same work, so its result is their T
+    return promise as Promise<T>;
+  }
+
+  /**
+   * Number of tasks waiting for a free slot
+   */
+  public getPendingCount(): number {
+    return this.queue.length;
+  }
+
+  private addWaiter(task: Task<unknown>, token: vscode.CancellationToken | undefined): Promise<unknown> {
+    return new Promise<unknown>((resolve, reject) => {
+      const waiter: Waiter<unknown> = { resolve, reject };
+
+      if (token) {
+        waiter.cancelListener = token.onCancellationRequested(() => {
+          this.removeWaiter(task, waiter);
+          reject(new vscode.CancellationError());
+        });
+      }
+
+      task.waiters.push(waiter);
+    });
+  }
+
+  private removeWaiter(task: Task<unknown>, waiter: Waiter<unknown>): void {
+    waiter.cancelListener?.dispose();
+    task.waiters = task.waiters.filter(w => w !== waiter);
+
+    // Nobody is interested anymore - drop the work if it has not started yet
+    if (task.waiters.length === 0 && !task.started) {
+      this.queue = this.queue.filter(t => t !== task);
+      this.forget(task);
+    }
+  }
+
+  private forget(task: Task<unknown>): void {
+    if (task.key !== undefined && this.tasksByKey.get(task.key) === task) {
+      this.tasksByKey.delete(task.key);
+    }
+  }
+
+  /**
+   * Start queued tasks while slots are free
+   */
+  private pump(): void {
+    const limit = Math.max(1, getConfig().maxConcurrentRequests);
+
+    while (this.running < limit && this.queue.length > 0) {
+      // Highest priority first, then oldest
+      let next = 0;
+      for (let i = 1; i < this.queue.length; i++) {
+        const candidate = this.queue[i];
+        const best = this.queue[next];
+        if (candidate.priority < best.priority ||
+            (candidate.priority === best.priority && candidate.sequence < best.sequence)) {
+          next = i;
+        }
+      }
+
+      const [task] = this.queue.splice(next, 1);
+      this.start(task);
+    }
+  }
+
+  private async start(task: Task<unknown>): Promise<void> {
+    task.started = true;
+    this.running++;
+
+    try {
+      const result = await task.run();
+      this.settle(task, waiter => waiter.resolve(result));
+    } catch (error) {
+      this.settle(task, waiter => waiter.reject(error));
+    } finally {
+      this.running--;
+      this.pump();
+    }
+  }
+
+  private settle(task: Task<unknown>, notify: (waiter: Waiter<unknown>) => void): void {
+    this.forget(task);
+    for (const waiter of task.waiters) {
+      waiter.cancelListener?.dispose();
+      notify(waiter);
+    }
+    task.waiters = [];
+  }
+}
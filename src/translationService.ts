@@ -1,6 +1,12 @@
 import * as vscode from 'vscode';
-import { TranslationResult, TranslationProvider } from './types';
-import { getConfig } from './config';
+import { TranslationResult, TranslationProvider, TranslationRoute } from './types';
+import { getConfig, getTargetLanguages } from './config';
+import { TranslationScheduler, TranslationRequestOptions } from './translationScheduler';
+import { TranslationMemory } from './translationMemory';
+import { Glossary } from './glossary';
+import { isInTargetLanguage } from './languageDetection';
+import { findRoute, RouteRequest } from './translationRoutes';
+import { DocumentInfo, FolderConfig } from './folderConfig';
 
 /**
  * Interface for translation services
@@ -8,8 +14,32 @@ import { getConfig } from './config';
 export interface ITranslationService {
   /**
    * Translate text
+   * The route, when given, overrides model and prompt template (services without either ignore it).
+   * The document is the file the text comes from; its folder may set the prompt template and glossary.
    */
-  translate(text: string, targetLanguage?: string): Promise<TranslationResult>;
+  translate(text: string, targetLanguage?: string, route?: TranslationRoute, document?: DocumentInfo): Promise<TranslationResult>;
+
+  /**
+   * Translate text, reporting the partial translation as it is generated.
+   * Services that cannot stream simply omit this method.
+   */
+  translateStream?(
+    text: string,
+    onPartial: (partial: string) => void,
+    targetLanguage?: string,
+    route?: TranslationRoute,
+    document?: DocumentInfo
+  ): Promise<TranslationResult>;
+
+  /**
+   * Translate many texts at once, returning results in the same order
+   */
+  translateBatch(
+    texts: string[],
+    targetLanguage?: string,
+    route?: TranslationRoute,
+    document?: DocumentInfo
+  ): Promise<TranslationResult[]>;
 
   /**
    * Check if service is available/connected
@@ -19,7 +49,12 @@ export interface ITranslationService {
   /**
    * Get cached result if available (synchronous)
    */
-  getCachedResult(text: string, targetLanguage?: string): TranslationResult | undefined;
+  getCachedResult(
+    text: string,
+    targetLanguage?: string,
+    route?: TranslationRoute,
+    document?: DocumentInfo
+  ): TranslationResult | undefined;
 
   /**
    * Clear any internal cache
@@ -27,12 +62,29 @@ export interface ITranslationService {
   clearCache(): void;
 }
 
+/**
+ * Error raised when a provider cannot be reached (connection refused, timeout, 5xx).
+ * The manager moves on to the next provider in the fallback chain for these errors only.
+ */
+export class ServiceUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ServiceUnavailableError';
+  }
+}
+
 /**
  * Manager to handle switching between translation services
  */
 export class TranslationServiceManager {
   private static instance: TranslationServiceManager;
   private services: Map<TranslationProvider, ITranslationService> = new Map();
+  private scheduler = new TranslationScheduler();
+
+  // Provider currently answering instead of the primary one (undefined = primary)
+  private activeFallback: TranslationProvider | undefined;
+  private readonly _onDidChangeFallback = new vscode.EventEmitter<TranslationProvider | undefined>();
+  public readonly onDidChangeFallback = this._onDidChangeFallback.event;
 
   private constructor() {}
 
@@ -47,9 +99,14 @@ export class TranslationServiceManager {
     this.services.set(provider, service);
   }
 
-  public getService(provider?: TranslationProvider): ITranslationService {
+  /**
+   * Get the service of a provider
+   * Without a provider, the routing rules (lmTranslator.routes) pick one for the request,
+   * falling back to lmTranslator.provider.
+   */
+  public getService(provider?: TranslationProvider, request?: RouteRequest): ITranslationService {
     const config = getConfig();
-    const currentProvider = provider || config.provider;
+    const currentProvider = provider || (request && findRoute(request)?.provider) || config.provider;
     const service = this.services.get(currentProvider);
 
     if (!service) {
@@ -64,18 +121,284 @@ export class TranslationServiceManager {
     return service;
   }
 
-  public getCachedResult(text: string, targetLanguage?: string): TranslationResult | undefined {
-    const service = this.getService();
-    return service.getCachedResult(text, targetLanguage);
+  /**
+   * Ordered list of providers to try: the primary provider, then lmTranslator.fallbackProviders
+   * @param route Routing rule whose provider replaces lmTranslator.provider as the primary one
+   */
+  public getProviderChain(route?: TranslationRoute): TranslationProvider[] {
+    const config = getConfig();
+    const chain: TranslationProvider[] = [route?.provider || config.provider];
+    for (const provider of config.fallbackProviders) {
+      if (!chain.includes(provider) && this.services.has(provider)) {
+        chain.push(provider);
+      }
+    }
+    return chain;
+  }
+
+  /**
+   * Get the fallback provider currently in use, if the primary is offline
+   */
+  public getActiveFallback(): TranslationProvider | undefined {
+    return this.activeFallback;
+  }
+
+  /**
+   * Get an approved (translation memory) or cached result without calling any provider
+   * @param document File the text comes from, for routing rules on language ID and glob and
+   * for the folder's own language, prompt template and glossary
+   */
+  public getCachedResult(text: string, targetLanguage?: string, document?: DocumentInfo): TranslationResult | undefined {
+    const lang = targetLanguage || getConfig(document).targetLanguage;
+    const approved = TranslationMemory.getInstance().lookup(text, lang);
+    if (approved) {
+      return approved;
+    }
+
+    const route = findRoute({ text, targetLanguage: lang, document });
+    const chain = this.getProviderChain(route);
+    for (const provider of chain) {
+      const cached = this.getService(provider).getCachedResult(text, lang, provider === chain[0] ? route : undefined, document);
+      if (cached) {
+        return this.completeResult(cached, provider, route, document);
+      }
+    }
+    return undefined;
   }
 
+  /**
+   * Check if any provider in the chain is reachable
+   * Also updates the fallback state so the status bar reflects which provider will answer.
+   */
   public async isAvailable(): Promise<boolean> {
-    const service = this.getService();
-    return service.isAvailable();
+    const chain = this.getProviderChain();
+    for (const provider of chain) {
+      if (await this.getService(provider).isAvailable()) {
+        this.setActiveFallback(provider === chain[0] ? undefined : provider);
+        return true;
+      }
+    }
+    this.setActiveFallback(undefined);
+    return false;
+  }
+
+  /**
+   * Translate text through the scheduler
+   * Approved and cached results, and text already in the target language, return immediately;
+   * identical pending requests are merged.
+   */
+  public async translate(
+    text: string,
+    targetLanguage?: string,
+    options: TranslationRequestOptions = {}
+  ): Promise<TranslationResult> {
+    const cached = this.getCachedResult(text, targetLanguage, options.document);
+    if (cached) {
+      return cached;
+    }
+
+    const lang = targetLanguage || getConfig(options.document).targetLanguage;
+    const sameLanguage = this.getSameLanguageResult(text, lang);
+    if (sameLanguage) {
+      return sameLanguage;
+    }
+
+    const route = findRoute({ text, targetLanguage: lang, document: options.document });
+    return this.scheduler.schedule(
+      `translate\0${lang}\0${route?.name ?? ''}\0${FolderConfig.getInstance().getScopeKey(options.document)}\0${text}`,
+      () => this.runWithFallback(route, async (service, provider, serviceRoute) => this.completeResult(
+        await service.translate(text, lang, serviceRoute, options.document),
+        provider,
+        route,
+        options.document
+      )),
+      options
+    );
   }
 
-  public async translate(text: string, targetLanguage?: string): Promise<TranslationResult> {
-    const service = this.getService();
-    return service.translate(text, targetLanguage);
+  /**
+   * Translate text, streaming partial output when the active service supports it
+   * Streams are never merged since each caller needs its own partial updates.
+   */
+  public async translateStream(
+    text: string,
+    onPartial: (partial: string) => void,
+    targetLanguage?: string,
+    options: TranslationRequestOptions = {}
+  ): Promise<TranslationResult> {
+    const lang = targetLanguage || getConfig(options.document).targetLanguage;
+    const approved = TranslationMemory.getInstance().lookup(text, lang);
+    if (approved) {
+      onPartial(approved.translatedText);
+      return approved;
+    }
+
+    const enableStreaming = getConfig().enableStreaming;
+    const route = findRoute({ text, targetLanguage: lang, document: options.document });
+    return this.scheduler.schedule(
+      undefined,
+      () => this.runWithFallback(route, async (service, provider, serviceRoute) => {
+        const result = enableStreaming && service.translateStream
+          ? await service.translateStream(text, onPartial, lang, serviceRoute, options.document)
+          : await service.translate(text, lang, serviceRoute, options.document);
+        return this.completeResult(result, provider, route, options.document);
+      }),
+      options
+    );
+  }
+
+  /**
+   * Translate text into every target language (lmTranslator.targetLanguages)
+   * @returns One result per language, primary language first
+   */
+  public async translateAll(text: string, options: TranslationRequestOptions = {}): Promise<TranslationResult[]> {
+    return Promise.all(getTargetLanguages(options.document).map(lang => this.translate(text, lang, options)));
+  }
+
+  /**
+   * Translate text into every target language, streaming the primary one
+   * The other languages are translated meanwhile and returned once all are done.
+   * @returns One result per language, primary language first
+   */
+  public async translateStreamAll(
+    text: string,
+    onPartial: (partial: string) => void,
+    options: TranslationRequestOptions = {}
+  ): Promise<TranslationResult[]> {
+    const [primary, ...others] = getTargetLanguages(options.document);
+    return Promise.all([
+      this.translateStream(text, onPartial, primary, options),
+      ...others.map(lang => this.translate(text, lang, options))
+    ]);
+  }
+
+  /**
+   * Translate many texts into every target language, one batch per language
+   * @returns Results per language (primary language first), each in the order of texts
+   */
+  public async translateBatchAll(texts: string[], options: TranslationRequestOptions = {}): Promise<TranslationResult[][]> {
+    return Promise.all(getTargetLanguages(options.document).map(lang => this.translateBatch(texts, lang, options)));
+  }
+
+  /**
+   * Translate many texts in as few requests as the provider allows
+   * Texts matching different routing rules are sent as separate batches.
+   */
+  public async translateBatch(
+    texts: string[],
+    targetLanguage?: string,
+    options: TranslationRequestOptions = {}
+  ): Promise<TranslationResult[]> {
+    if (texts.length === 0) {
+      return [];
+    }
+
+    const lang = targetLanguage || getConfig(options.document).targetLanguage;
+
+    // Approved translations and text already in the target language never reach the provider
+    const memory = TranslationMemory.getInstance();
+    const known = texts.map(text => memory.lookup(text, lang) || this.getSameLanguageResult(text, lang));
+    const remaining = texts.filter((_, i) => !known[i]);
+    if (remaining.length === 0) {
+      return known as TranslationResult[];
+    }
+
+    const groups = new Map<string, { route: TranslationRoute | undefined; texts: string[] }>();
+    for (const text of remaining) {
+      const route = findRoute({ text, targetLanguage: lang, document: options.document });
+      const group = groups.get(route?.name ?? '') || { route, texts: [] };
+      group.texts.push(text);
+      groups.set(route?.name ?? '', group);
+    }
+
+    const translated = new Map<string, TranslationResult>();
+    await Promise.all(Array.from(groups.values()).map(async ({ route, texts: group }) => {
+      const results = await this.scheduler.schedule(
+        `batch\0${lang}\0${route?.name ?? ''}\0${FolderConfig.getInstance().getScopeKey(options.document)}\0${group.join('\0')}`,
+        () => this.runWithFallback(route, async (service, provider, serviceRoute) =>
+          (await service.translateBatch(group, lang, serviceRoute, options.document))
+            .map(result => this.completeResult(result, provider, route, options.document))
+        ),
+        options
+      );
+      group.forEach((text, i) => translated.set(text, results[i]));
+    }));
+
+    return texts.map((text, i) => known[i] || translated.get(text)!);
+  }
+
+  /**
+   * The text itself as its translation, when the offline check finds it already in the target language
+   * Not cached: the check is cheap and its threshold may change.
+   */
+  private getSameLanguageResult(text: string, lang: string): TranslationResult | undefined {
+    if (!isInTargetLanguage(text, lang)) {
+      return undefined;
+    }
+    return {
+      originalText: text,
+      translatedText: text,
+      detectedLanguage: lang,
+      targetLanguage: lang,
+      timestamp: Date.now(),
+      sameLanguage: true
+    };
+  }
+
+  /**
+   * Run a request against each provider of the chain until one answers.
+   * Only ServiceUnavailableError moves on to the next provider; other errors are thrown as-is.
+   * The route's model and prompt template only apply to the route's own provider, not to fallbacks.
+   */
+  private async runWithFallback<T>(
+    route: TranslationRoute | undefined,
+    run: (service: ITranslationService, provider: TranslationProvider, serviceRoute: TranslationRoute | undefined) => Promise<T>
+  ): Promise<T> {
+    const chain = this.getProviderChain(route);
+    let lastError: unknown;
+
+    for (const provider of chain) {
+      try {
+        const result = await run(this.getService(provider), provider, provider === chain[0] ? route : undefined);
+        this.setActiveFallback(provider === chain[0] ? undefined : provider);
+        return result;
+      } catch (error) {
+        if (!(error instanceof ServiceUnavailableError)) {
+          throw error;
+        }
+        console.warn(`LM Translator: ${provider} unavailable - ${error.message}`);
+        lastError = error;
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Record the provider that answered and the route that chose it, then check the glossary
+   */
+  private completeResult(
+    result: TranslationResult,
+    provider: TranslationProvider,
+    route: TranslationRoute | undefined,
+    document: DocumentInfo | undefined
+  ): TranslationResult {
+    return this.checkGlossary({ ...result, provider, route: route?.name }, document);
+  }
+
+  /**
+   * Attach warnings for broken glossary rules
+   * Checked on every read, so cached results reflect the current glossary.
+   */
+  private checkGlossary(result: TranslationResult, document: DocumentInfo | undefined): TranslationResult {
+    const warnings = Glossary.getInstance().check(result, document);
+    return warnings.length > 0 ? { ...result, glossaryWarnings: warnings } : result;
+  }
+
+  private setActiveFallback(provider: TranslationProvider | undefined): void {
+    if (this.activeFallback !== provider) {
+      this.activeFallback = provider;
+      this._onDidChangeFallback.fire(provider);
+    }
   }
 }
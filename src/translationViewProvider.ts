@@ -1,9 +1,14 @@
 import * as vscode from 'vscode';
 import { TranslationServiceManager } from './translationService';
-import { getConfig } from './config';
+import { getConfig, getTargetLanguages } from './config';
+import { TranslationResult } from './types';
+import { getLanguageName } from './languageDetection';
+import { FolderConfig } from './folderConfig';
 
 /**
  * Sidebar View Provider for LM Translator
+ * Follows the active editor: its target languages and prompt settings are those of the file's
+ * folder (.lmtranslator.json included), and changing the language writes to that scope.
  */
 export class TranslationViewProvider implements vscode.WebviewViewProvider {
   public static readonly viewType = 'lmTranslator.view';
@@ -41,8 +46,7 @@ export class TranslationViewProvider implements vscode.WebviewViewProvider {
             break;
         }
         case 'updateTargetLanguage': {
-            const config = vscode.workspace.getConfiguration('lmTranslator');
-            await config.update('targetLanguage', data.language, vscode.ConfigurationTarget.Global);
+            await FolderConfig.getInstance().update('targetLanguage', data.language, vscode.window.activeTextEditor?.document);
             // Config listener in extension.ts will trigger status update, but we should also update view
             this._sendConfig();
             break;
@@ -50,17 +54,35 @@ export class TranslationViewProvider implements vscode.WebviewViewProvider {
       }
     });
 
+    // Another file may resolve to another folder's settings
+    const listeners = [
+      vscode.window.onDidChangeActiveTextEditor(() => this._sendConfig()),
+      vscode.workspace.onDidChangeConfiguration(e => {
+        if (e.affectsConfiguration('lmTranslator')) {
+          this._sendConfig();
+        }
+      }),
+      FolderConfig.getInstance().onDidChange(() => this._sendConfig())
+    ];
+    webviewView.onDidDispose(() => listeners.forEach(listener => listener.dispose()));
+
     // Send initial config
     setTimeout(() => this._sendConfig(), 500);
   }
 
-  public async setTranslation(original: string, translated: string) {
+  public async setTranslation(result: TranslationResult, others: TranslationResult[] = []) {
     if (this._view) {
       this._view.show?.(true); // Focus the view
+      this._postResult(result, others);
+    }
+  }
+
+  public setPartialResult(original: string, partial: string) {
+    if (this._view) {
       this._view.webview.postMessage({
-        command: 'setResult',
+        command: 'setPartialResult',
         original,
-        translated
+        translated: partial
       });
     }
   }
@@ -72,12 +94,12 @@ export class TranslationViewProvider implements vscode.WebviewViewProvider {
       this._view.webview.postMessage({ command: 'setLoading', loading: true });
 
       try {
-        const result = await service.translate(text);
-        this._view.webview.postMessage({
-            command: 'setResult',
-            original: result.originalText,
-            translated: result.translatedText
-        });
+        const [result, ...others] = await service.translateStreamAll(
+          text,
+          (partial) => this.setPartialResult(text, partial),
+          { priority: 'interactive', document: vscode.window.activeTextEditor?.document }
+        );
+        this._postResult(result, others);
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Translation failed';
         this._view.webview.postMessage({
@@ -89,11 +111,37 @@ export class TranslationViewProvider implements vscode.WebviewViewProvider {
       }
   }
 
+  /**
+   * Post the primary translation and those into the other target languages
+   */
+  private _postResult(result: TranslationResult, others: TranslationResult[] = []) {
+    this._view?.webview.postMessage({
+      command: 'setResult',
+      original: result.originalText,
+      translated: result.translatedText,
+      fromMemory: !!result.fromMemory,
+      detectedLanguage: result.detectedLanguage && getLanguageName(result.detectedLanguage),
+      glossaryWarnings: [
+        ...result.glossaryWarnings || [],
+        ...others.flatMap(other => (other.glossaryWarnings || []).map(warning => `${other.targetLanguage}: ${warning}`))
+      ],
+      others: others.map(other => ({
+        language: other.targetLanguage,
+        translated: other.translatedText,
+        fromMemory: !!other.fromMemory,
+        sameLanguage: !!other.sameLanguage
+      }))
+    });
+  }
+
   private _sendConfig() {
     if (this._view) {
+      const document = vscode.window.activeTextEditor?.document;
       this._view.webview.postMessage({
           command: 'setConfig',
-          config: getConfig()
+          config: getConfig(document),
+          targetLanguages: getTargetLanguages(document),
+          targetLanguageSource: FolderConfig.getInstance().getSource('targetLanguage', document).label
       });
     }
   }
@@ -158,6 +206,7 @@ export class TranslationViewProvider implements vscode.WebviewViewProvider {
     .btn-secondary:hover { background: var(--bg-secondary); }
     .status { font-size: 0.8em; color: var(--text-secondary); margin-top: 6px; min-height: 1.2em; }
     .error { color: var(--error); }
+    .warnings { font-size: 0.8em; color: var(--vscode-editorWarning-foreground); white-space: pre-wrap; }
     .info {
       background: var(--bg-secondary);
       padding: 8px;
@@ -177,7 +226,7 @@ export class TranslationViewProvider implements vscode.WebviewViewProvider {
 <body>
   <h1>🌐 LM Translator</h1>
   <div class="info">
-    Target: <strong id="target-lang">...</strong><br>
+    Target: <strong id="target-lang">...</strong> <span id="target-lang-source"></span><br>
     Provider: <strong id="api-url">...</strong>
   </div>
 
@@ -212,11 +261,14 @@ export class TranslationViewProvider implements vscode.WebviewViewProvider {
     <textarea id="output" readonly placeholder="Result..."></textarea>
   </div>
 
+  <div id="other-results"></div>
+
   <div class="actions">
       <button class="btn-secondary" id="copy-btn">Copy</button>
   </div>
 
   <div class="status" id="status"></div>
+  <div class="warnings" id="glossary-warnings"></div>
 
   <script>
     const vscode = acquireVsCodeApi();
@@ -226,13 +278,32 @@ export class TranslationViewProvider implements vscode.WebviewViewProvider {
     const clearBtn = document.getElementById('clear-btn');
     const copyBtn = document.getElementById('copy-btn');
     const statusEl = document.getElementById('status');
+    const warningsEl = document.getElementById('glossary-warnings');
     const targetLangEl = document.getElementById('target-lang');
     const targetLangSelect = document.getElementById('target-lang-select');
+    const targetLangSourceEl = document.getElementById('target-lang-source');
     const apiUrlEl = document.getElementById('api-url');
+    const otherResultsEl = document.getElementById('other-results');
     let currentConfig = {};
 
     vscode.postMessage({ command: 'getConfig' });
 
+    // Translations into the other target languages, under the primary one
+    function renderOthers(others) {
+      otherResultsEl.textContent = '';
+      for (const other of others) {
+        const panel = document.createElement('div');
+        panel.className = 'panel';
+        const label = document.createElement('label');
+        label.textContent = other.language + (other.fromMemory ? ' ✓' : '') + (other.sameLanguage ? ' (unchanged)' : '');
+        const textarea = document.createElement('textarea');
+        textarea.readOnly = true;
+        textarea.value = other.translated;
+        panel.append(label, textarea);
+        otherResultsEl.append(panel);
+      }
+    }
+
     translateBtn.addEventListener('click', () => {
       const text = inputEl.value.trim();
       if (!text) return;
@@ -248,6 +319,7 @@ export class TranslationViewProvider implements vscode.WebviewViewProvider {
       inputEl.value = '';
       outputEl.value = '';
       statusEl.textContent = '';
+      renderOthers([]);
     });
 
     copyBtn.addEventListener('click', () => {
@@ -269,10 +341,21 @@ export class TranslationViewProvider implements vscode.WebviewViewProvider {
         case 'setResult':
           inputEl.value = message.original;
           outputEl.value = message.translated;
-          statusEl.textContent = 'Done.';
+          renderOthers(message.others);
+          statusEl.textContent = message.fromMemory
+            ? '✓ Approved (memory)'
+            : message.detectedLanguage ? 'Done (from ' + message.detectedLanguage + ').' : 'Done.';
           statusEl.className = 'status';
+          warningsEl.textContent = (message.glossaryWarnings || []).map(w => '⚠️ Glossary: ' + w).join('\n');
+          break;
+        case 'setPartialResult':
+          warningsEl.textContent = '';
+          inputEl.value = message.original;
+          outputEl.value = message.translated;
+          outputEl.scrollTop = outputEl.scrollHeight;
           break;
         case 'setError':
+          warningsEl.textContent = '';
           statusEl.textContent = message.message;
           statusEl.className = 'status error';
           break;
@@ -280,10 +363,14 @@ export class TranslationViewProvider implements vscode.WebviewViewProvider {
           translateBtn.disabled = message.loading;
           translateBtn.textContent = message.loading ? '...' : 'Translate';
           statusEl.textContent = message.loading ? 'Translating...' : '';
+          if (message.loading) {
+            renderOthers([]);
+          }
           break;
         case 'setConfig':
           currentConfig = message.config;
-          targetLangEl.textContent = message.config.targetLanguage;
+          targetLangEl.textContent = message.targetLanguages.join(', ');
+          targetLangSourceEl.textContent = '(' + message.targetLanguageSource + ')';
 
           // Update select if value exists, otherwise add it
           const lang = message.config.targetLanguage;
@@ -9,17 +9,96 @@ export interface LMTranslatorConfig {
   apiUrl: string;
   model: string;
   targetLanguage: string;
+  targetLanguages: string[];
+  sourceLanguage: string; // 'auto' or a language name/code
+  sourceLanguageDetection: 'local' | 'model';
+  skipSameLanguageEnabled: boolean;
+  skipSameLanguageConfidence: number;
   enableHover: boolean;
   hoverDelay: number;
   decorationMode: 'off' | 'inline' | 'highlighted';
+  paragraphDisplay: 'lastLine' | 'spread';
+  bilingualPrefix: string;
   maxTokens: number;
   cacheTTL: number;
   maxCacheSize: number;
   promptTemplate: string;
   provider: TranslationProvider;
+  enableStreaming: boolean;
+  openAICompatibleUrl: string;
+  openAICompatibleModel: string;
+  openAICompatibleHeaders: Record<string, string>;
+  temperature: number;
+  activeProfile?: string;
+  fallbackProviders: TranslationProvider[];
+  batchSize: number;
+  maxConcurrentRequests: number;
+  glossary: GlossaryTerm[];
+  doNotTranslate: string[];
+  commentSyntax: Record<string, CommentSyntaxSetting>;
+  stringLiteralsEnabled: boolean;
+  stringLiteralsLanguages: string[];
+  stringLiteralsMinLength: number;
+  workspaceTranslationInclude: string;
+  workspaceTranslationExclude: string;
+  routes: TranslationRoute[];
 }
 
-export type TranslationProvider = 'LM Studio' | 'Google Translate';
+/**
+ * Named provider profile (lmTranslator.profiles)
+ * Unset fields fall back to the regular settings.
+ */
+export interface TranslationProfile {
+  name: string;
+  provider?: TranslationProvider;
+  apiUrl?: string;
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  promptTemplate?: string;
+}
+
+/**
+ * Routing rule (lmTranslator.routes)
+ * Conditions left out match anything; the first rule whose conditions all match picks
+ * the provider, model and prompt template.
+ */
+export interface TranslationRoute {
+  name?: string;
+  sourceLanguage?: string; // Configured or detected source language
+  targetLanguage?: string;
+  languageId?: string | string[]; // VS Code language ID of the file
+  glob?: string; // Matched on the file path
+  minLength?: number;
+  maxLength?: number;
+  provider?: TranslationProvider;
+  model?: string;
+  promptTemplate?: string;
+}
+
+/**
+ * Glossary entry (lmTranslator.glossary or .lmtranslator/glossary.json)
+ */
+export interface GlossaryTerm {
+  term: string;
+  translation: string;
+  targetLanguage?: string; // Applies to every target language when unset
+  caseSensitive?: boolean;
+}
+
+/**
+ * User entry of lmTranslator.commentSyntax, keyed by language ID
+ * Set fields replace those of the built-in entry (or of the language named in `extends`).
+ */
+export interface CommentSyntaxSetting {
+  extends?: string;
+  line?: string[];
+  block?: [string, string][];
+  docstring?: [string, string][];
+  strings?: [string, string][];
+}
+
+export type TranslationProvider = 'LM Studio' | 'Google Translate' | 'OpenAI Compatible';
 
 /**
  * OpenAI-compatible chat completion request
@@ -65,6 +144,26 @@ export interface ChatCompletionChoice {
   finish_reason: string;
 }
 
+/**
+ * OpenAI-compatible streaming chunk (payload of one server-sent event)
+ */
+export interface ChatCompletionChunk {
+  id: string;
+  object: string;
+  created: number;
+  model: string;
+  choices: ChatCompletionChunkChoice[];
+}
+
+/**
+ * Streaming chunk choice, carrying only the newly generated text
+ */
+export interface ChatCompletionChunkChoice {
+  index: number;
+  delta: Partial<ChatMessage>;
+  finish_reason: string | null;
+}
+
 /**
  * Translation result
  */
@@ -74,6 +173,12 @@ export interface TranslationResult {
   detectedLanguage?: string;
   targetLanguage: string;
   timestamp: number;
+  provider?: TranslationProvider; // Provider that actually answered
+  model?: string;
+  fromMemory?: boolean; // Approved translation from .lmtranslator/memory.json
+  glossaryWarnings?: string[]; // Glossary rules the translation breaks
+  route?: string; // Name of the routing rule that picked the provider
+  sameLanguage?: boolean; // Text already in the target language, returned untranslated
 }
 
 /**
@@ -0,0 +1,266 @@
+import * as vscode from 'vscode';
+import { TranslationServiceManager, ServiceUnavailableError } from './translationService';
+import { getConfig, getTargetLanguages } from './config';
+import { findTranslatableTexts, TranslatableText } from './translatableText';
+import { isInTargetLanguage } from './languageDetection';
+import { DocumentInfo, FolderConfig } from './folderConfig';
+
+/**
+ * Counts reported at the end of a workspace translation job
+ * translated, cached, skipped and failed count distinct texts (a comment repeated in many files is translated once).
+ * A text counts as cached once every target language is cached or needs no translation.
+ */
+interface WorkspaceTranslationSummary {
+  files: number;
+  comments: number;
+  translated: number;
+  cached: number;
+  skipped: number; // Already in every target language
+  failed: number;
+}
+
+/**
+ * Language IDs by file name and extension (lower case, extensions with their dot)
+ */
+interface LanguageIndex {
+  filenames: Map<string, string>;
+  extensions: Map<string, string>;
+}
+
+// Larger files are generated or minified code, not worth translating
+const MAX_FILE_SIZE = 1024 * 1024;
+
+/**
+ * Pre-translate the comments of every file matching the include/exclude globs
+ * Finds comments the same way inline decorations do and fills the translation cache for every
+ * target language, so decorations and hover answer from the cache afterwards.
+ * @param folder Folder picked in the explorer; the globs are relative to it
+ */
+export async function translateWorkspace(folder?: vscode.Uri): Promise<void> {
+  if (!vscode.workspace.workspaceFolders?.length) {
+    vscode.window.showWarningMessage('LM Translator: Open a folder to translate its comments');
+    return;
+  }
+
+  const config = getConfig();
+  const include = await vscode.window.showInputBox({
+    title: 'LM Translator: Translate Comments in Workspace',
+    prompt: folder ? `Files to include in ${vscode.workspace.asRelativePath(folder)} (glob)` : 'Files to include (glob)',
+    value: config.workspaceTranslationInclude,
+    ignoreFocusOut: true
+  });
+  if (include === undefined) {
+    return;
+  }
+
+  const exclude = await vscode.window.showInputBox({
+    title: 'LM Translator: Translate Comments in Workspace',
+    prompt: 'Files to exclude (glob, leave empty to exclude nothing)',
+    value: config.workspaceTranslationExclude,
+    ignoreFocusOut: true
+  });
+  if (exclude === undefined) {
+    return;
+  }
+
+  const pattern = folder ? new vscode.RelativePattern(folder, include.trim() || '**/*') : include.trim() || '**/*';
+  const languages = new Set<string>(); // Target languages of all files, for the summary
+  const summary: WorkspaceTranslationSummary = { files: 0, comments: 0, translated: 0, cached: 0, skipped: 0, failed: 0 };
+  let cancelled = false;
+
+  await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: 'LM Translator: Translating workspace comments',
+      cancellable: true
+    },
+    async (progress, token) => {
+      const service = TranslationServiceManager.getInstance();
+      const uris = await vscode.workspace.findFiles(pattern, exclude.trim() || undefined, undefined, token);
+      const languageIndex = buildLanguageIndex();
+
+      // 1. Scan files and sort texts into cached, already in the target language and missing
+      const seen = new Set<string>();
+      const missing: { document: DocumentInfo; texts: string[] }[] = [];
+
+      for (let i = 0; i < uris.length; i++) {
+        if (token.isCancellationRequested) {
+          cancelled = true;
+          return;
+        }
+        progress.report({ message: `Scanning ${i + 1}/${uris.length}: ${vscode.workspace.asRelativePath(uris[i])}` });
+
+        const file = await readTranslatableTexts(uris[i], languageIndex);
+        if (!file) {
+          continue;
+        }
+        summary.files++;
+        summary.comments += file.texts.length;
+
+        // Folders may set their own target languages, prompt template and glossary (.lmtranslator.json)
+        const fileLanguages = getTargetLanguages(file.document);
+        fileLanguages.forEach(lang => languages.add(lang));
+        const scope = FolderConfig.getInstance().getScopeKey(file.document);
+
+        const fileMissing: string[] = [];
+        for (const { text } of file.texts) {
+          if (seen.has(`${scope}\0${text}`)) {
+            continue;
+          }
+          seen.add(`${scope}\0${text}`);
+          const cached = fileLanguages.map(lang => !!service.getCachedResult(text, lang, file.document));
+          if (fileLanguages.some((lang, i) => !cached[i] && !isInTargetLanguage(text, lang))) {
+            fileMissing.push(text);
+          } else if (cached.some(Boolean)) {
+            summary.cached++;
+          } else {
+            summary.skipped++;
+          }
+        }
+        if (fileMissing.length > 0) {
+          missing.push({ document: file.document, texts: fileMissing });
+        }
+      }
+
+      // 2. Translate the missing texts in batches, one request per target language (results land in the cache)
+      //    Batches stay within one file, so routing rules on language ID and glob see the right file
+      const batchSize = Math.max(1, getConfig().batchSize);
+      const total = missing.reduce((sum, file) => sum + file.texts.length, 0);
+      let done = 0;
+
+      for (const { document, texts } of missing) {
+        for (let i = 0; i < texts.length; i += batchSize) {
+          if (token.isCancellationRequested) {
+            cancelled = true;
+            return;
+          }
+
+          const batch = texts.slice(i, i + batchSize);
+          progress.report({
+            message: `Translating ${done + batch.length}/${total}`,
+            increment: batch.length / total * 100
+          });
+
+          try {
+            await service.translateBatchAll(batch, { priority: 'background', token, document });
+            summary.translated += batch.length;
+          } catch (error) {
+            if (error instanceof vscode.CancellationError) {
+              cancelled = true;
+              return;
+            }
+            if (error instanceof ServiceUnavailableError) {
+              // No provider answers - the remaining batches would fail the same way
+              summary.failed += total - done;
+              console.error('LM Translator: Workspace translation stopped', error);
+              return;
+            }
+            summary.failed += batch.length;
+            console.error('Batch translation failed', error);
+          }
+          done += batch.length;
+        }
+      }
+    }
+  );
+
+  const message = `${summary.files} files scanned, ${summary.comments} comments found, ` +
+    `${summary.translated} newly translated, ${summary.cached} cached, ${summary.skipped} already in ${Array.from(languages).join('/')}, ` +
+    `${summary.failed} failed`;
+  if (cancelled) {
+    vscode.window.showInformationMessage(`LM Translator: Cancelled - ${message}`);
+  } else if (summary.failed > 0) {
+    vscode.window.showWarningMessage(`LM Translator: ${message}`);
+  } else {
+    vscode.window.showInformationMessage(`LM Translator: ${message}`);
+  }
+}
+
+/**
+ * Translatable texts of a file, with the file they were read from
+ * Files are read without opening them (no language servers start for them); documents already
+ * open are used as they are, unsaved changes included.
+ * @returns undefined for files that are binary, unreadable or too large
+ */
+async function readTranslatableTexts(uri: vscode.Uri, languageIndex: LanguageIndex): Promise<{ document: DocumentInfo; texts: TranslatableText[] } | undefined> {
+  const open = vscode.workspace.textDocuments.find(document => document.uri.toString() === uri.toString());
+  if (open) {
+    return { document: open, texts: findTranslatableTexts(open.getText(), open.languageId, getTargetLanguages(open)) };
+  }
+
+  try {
+    const stat = await vscode.workspace.fs.stat(uri);
+    if (stat.size > MAX_FILE_SIZE) {
+      return undefined;
+    }
+    const content = await vscode.workspace.fs.readFile(uri);
+    if (content.includes(0)) {
+      return undefined; // Binary file
+    }
+    const document: DocumentInfo = { uri, languageId: getLanguageId(uri, languageIndex) };
+    return { document, texts: findTranslatableTexts(Buffer.from(content).toString('utf8'), document.languageId, getTargetLanguages(document)) };
+  } catch (e) {
+    return undefined; // Unreadable file
+  }
+}
+
+/**
+ * Collect the file names and extensions of the languages installed extensions contribute,
+ * then the simple entries of files.associations ("*.ext" and file names), which win
+ */
+function buildLanguageIndex(): LanguageIndex {
+  const index: LanguageIndex = { filenames: new Map(), extensions: new Map() };
+
+  for (const extension of vscode.extensions.all) {
+    const languages = extension.packageJSON?.contributes?.languages;
+    for (const language of Array.isArray(languages) ? languages : []) {
+      if (typeof language?.id !== 'string') {
+        continue;
+      }
+      for (const filename of toStringArray(language.filenames)) {
+        if (!index.filenames.has(filename.toLowerCase())) {
+          index.filenames.set(filename.toLowerCase(), language.id);
+        }
+      }
+      for (const ext of toStringArray(language.extensions)) {
+        if (!index.extensions.has(ext.toLowerCase())) {
+          index.extensions.set(ext.toLowerCase(), language.id);
+        }
+      }
+    }
+  }
+
+  const associations = vscode.workspace.getConfiguration('files').get<Record<string, string>>('associations') || {};
+  for (const [pattern, languageId] of Object.entries(associations)) {
+    if (/^\*\.[^*?/\\[\]{}]+$/.test(pattern)) {
+      index.extensions.set(pattern.slice(1).toLowerCase(), languageId);
+    } else if (/^[^*?/\\[\]{}]+$/.test(pattern)) {
+      index.filenames.set(pattern.toLowerCase(), languageId);
+    }
+  }
+
+  return index;
+}
+
+/**
+ * Language ID of a file from its name, the longest matching extension winning (".d.ts" over ".ts")
+ */
+function getLanguageId(uri: vscode.Uri, languageIndex: LanguageIndex): string {
+  const name = uri.path.slice(uri.path.lastIndexOf('/') + 1).toLowerCase();
+  const byName = languageIndex.filenames.get(name);
+  if (byName) {
+    return byName;
+  }
+
+  for (let dot = name.indexOf('.'); dot !== -1; dot = name.indexOf('.', dot + 1)) {
+    const byExtension = languageIndex.extensions.get(name.slice(dot));
+    if (byExtension) {
+      return byExtension;
+    }
+  }
+  return 'plaintext';
+}
+
+function toStringArray(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}